@@ -0,0 +1,47 @@
+import { createHash } from "node:crypto";
+import { readFileSync, readdirSync } from "node:fs";
+import { join, relative } from "node:path";
+import type { Plugin } from "vite";
+
+/**
+ * Emits `sw.js` into the build with the list of files to precache: every
+ * bundle output plus everything copied from `public/`. The list's hash names
+ * the cache, so each deploy installs a fresh one and drops the old.
+ */
+export function precacheServiceWorker(): Plugin {
+  let base = "/";
+  let publicDir = "";
+  return {
+    name: "do-todo-precache",
+    apply: "build",
+    configResolved(config) {
+      base = config.base;
+      publicDir = config.publicDir;
+    },
+    generateBundle(_options, bundle) {
+      const publicFiles = publicDir
+        ? readdirSync(publicDir, { recursive: true, withFileTypes: true })
+            .filter((d) => d.isFile())
+            .map((d) => relative(publicDir, join(d.parentPath ?? d.path, d.name)).split("\\").join("/"))
+        : [];
+      const files = [...Object.keys(bundle), ...publicFiles].filter((f) => !f.endsWith(".map")).sort();
+      const hash = createHash("sha256");
+      for (const f of files) {
+        const out = bundle[f];
+        hash.update(f);
+        if (out?.type === "asset") hash.update(out.source);
+      }
+      const precache = {
+        version: hash.digest("hex").slice(0, 12),
+        index: base,
+        urls: [base, ...files.filter((f) => f !== "index.html").map((f) => base + f)],
+      };
+      const template = readFileSync(new URL("./sw.js", import.meta.url), "utf8");
+      this.emitFile({
+        type: "asset",
+        fileName: "sw.js",
+        source: template.replace("self.__PRECACHE__", JSON.stringify(precache)),
+      });
+    },
+  };
+}
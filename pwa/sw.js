@@ -0,0 +1,93 @@
+// Service worker template. pwa/precache.ts fills in __PRECACHE__ with the
+// build's file list when it copies this file into dist; it isn't used in dev.
+
+const PRECACHE = self.__PRECACHE__; // { version, index, urls }
+const CACHE = `do-todo-${PRECACHE.version}`;
+
+// --- Offline -------------------------------------------------------------
+// Assets are precached at install. Pages go to the network first so a new
+// deploy is picked up straight away, and fall back to the cached app.
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => cache.addAll(PRECACHE.urls))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k.startsWith("do-todo-") && k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const req = event.request;
+  if (req.method !== "GET" || new URL(req.url).origin !== self.location.origin) return;
+  if (req.mode === "navigate") {
+    event.respondWith(fetch(req).catch(() => caches.match(PRECACHE.index)));
+    return;
+  }
+  event.respondWith(caches.match(req).then((hit) => hit || fetch(req)));
+});
+
+// --- Alerts --------------------------------------------------------------
+// The page sends the alerts its running timers will need ({ tag, at, title,
+// body }) whenever they change and on every tick, which also keeps this
+// worker awake. Where the browser supports notification triggers the alert
+// is handed to the system, so it fires even with every tab closed.
+const scheduled = new Map(); // tag → timeout id (null when handed to a trigger)
+
+function show(alert, options = {}) {
+  return self.registration.showNotification(alert.title, {
+    body: alert.body,
+    tag: alert.tag,
+    icon: "icons/icon-192.png",
+    ...options,
+  });
+}
+
+async function schedule(alerts) {
+  const wanted = new Set(alerts.map((a) => a.tag));
+  for (const [tag, id] of scheduled) {
+    if (wanted.has(tag)) continue;
+    clearTimeout(id);
+    scheduled.delete(tag);
+  }
+  const triggers = "TimestampTrigger" in self;
+  if (triggers) {
+    // Timers stopped since: withdraw their pending system alerts.
+    const pending = await self.registration.getNotifications({ includeTriggered: true });
+    pending.filter((n) => n.tag.startsWith("warn-") && !wanted.has(n.tag) && n.timestamp > Date.now()).forEach((n) => n.close());
+  }
+  for (const alert of alerts) {
+    if (scheduled.has(alert.tag)) continue;
+    if (triggers) {
+      scheduled.set(alert.tag, null);
+      await show(alert, { showTrigger: new self.TimestampTrigger(alert.at) });
+    } else {
+      const id = setTimeout(() => show(alert), Math.max(0, alert.at - Date.now()));
+      scheduled.set(alert.tag, id);
+    }
+  }
+}
+
+self.addEventListener("message", (event) => {
+  const msg = event.data;
+  if (msg?.type === "show") event.waitUntil(show(msg.alert));
+  else if (msg?.type === "schedule") event.waitUntil(schedule(msg.alerts));
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((list) => {
+      if (list.length) return list[0].focus();
+      return self.clients.openWindow(self.registration.scope);
+    })
+  );
+});
@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+// Reference sync server for Do Todo (protocol: docs/sync-protocol.md).
+// No dependencies: Node's http module and a JSON file on disk. It is meant
+// for a small team on a trusted network; put it behind HTTPS for anything
+// else.
+//
+//   PORT=8787 SYNC_TOKEN=secret SYNC_DATA=./sync-data.json node server/sync-server.mjs
+
+import { createServer } from "node:http";
+import { readFileSync, renameSync, writeFileSync } from "node:fs";
+
+const PORT = Number(process.env.PORT) || 8787;
+const TOKEN = process.env.SYNC_TOKEN || "";
+const DATA = process.env.SYNC_DATA || "./sync-data.json";
+const COLLECTIONS = ["todos", "projects", "templates"];
+const MAX_BODY = 10 * 1024 * 1024;
+
+// { seq, records: { "collection:id": { collection, id, fields, deleted, seq } } }
+let db = { seq: 0, records: {} };
+try {
+  db = JSON.parse(readFileSync(DATA, "utf8"));
+} catch (err) {
+  if (err.code !== "ENOENT") throw err;
+}
+
+function persist() {
+  writeFileSync(`${DATA}.tmp`, JSON.stringify(db));
+  renameSync(`${DATA}.tmp`, DATA);
+}
+
+/** Last writer wins per field; equal times fall back to comparing values so every server agrees. */
+function newer(incoming, current) {
+  if (!current) return true;
+  if (incoming.at !== current.at) return incoming.at > current.at;
+  return JSON.stringify(incoming.value) > JSON.stringify(current.value);
+}
+
+function validChange(c) {
+  return (
+    c &&
+    COLLECTIONS.includes(c.collection) &&
+    typeof c.id === "string" &&
+    c.id &&
+    typeof c.fields === "object" &&
+    c.fields !== null &&
+    Object.values(c.fields).every((f) => f && Number.isFinite(f.at)) &&
+    (c.deleted == null || Number.isFinite(c.deleted))
+  );
+}
+
+function applyChanges(changes) {
+  let touched = false;
+  for (const c of changes) {
+    const key = `${c.collection}:${c.id}`;
+    const rec = db.records[key] ?? { collection: c.collection, id: c.id, fields: {}, deleted: null, seq: 0 };
+    let changed = !db.records[key];
+    for (const [name, field] of Object.entries(c.fields)) {
+      if (newer(field, rec.fields[name])) {
+        rec.fields[name] = { value: field.value, at: field.at };
+        changed = true;
+      }
+    }
+    if (c.deleted != null && c.deleted > (rec.deleted ?? 0)) {
+      rec.deleted = c.deleted;
+      changed = true;
+    }
+    if (changed) {
+      rec.seq = ++db.seq;
+      db.records[key] = rec;
+      touched = true;
+    }
+  }
+  if (touched) persist();
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on("data", (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY) {
+        reject(new Error("body too large"));
+        req.destroy();
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: "unauthorized" });
+
+  const url = new URL(req.url, "http://localhost");
+  if (url.pathname !== "/changes") return send(res, 404, { error: "not found" });
+
+  if (req.method === "GET") {
+    const since = Number(url.searchParams.get("since")) || 0;
+    const records = Object.values(db.records)
+      .filter((r) => r.seq > since)
+      .map(({ seq: _seq, ...r }) => r);
+    return send(res, 200, { cursor: db.seq, records });
+  }
+
+  if (req.method === "POST") {
+    let body;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch (_) {
+      return send(res, 400, { error: "invalid JSON" });
+    }
+    if (!Array.isArray(body?.changes) || !body.changes.every(validChange)) {
+      return send(res, 400, { error: "invalid changes" });
+    }
+    try {
+      applyChanges(body.changes);
+    } catch (err) {
+      // Most likely the data file couldn't be written. The client keeps its
+      // changes and pushes them again on the next round.
+      console.error("Couldn't apply changes:", err);
+      return send(res, 500, { error: "couldn't save changes" });
+    }
+    return send(res, 200, { cursor: db.seq });
+  }
+
+  send(res, 405, { error: "method not allowed" });
+});
+
+server.listen(PORT, () => {
+  console.log(`Do Todo sync server on http://localhost:${PORT}${TOKEN ? " (token required)" : ""}`);
+});
@@ -0,0 +1,113 @@
+// --- Storage adapters ----------------------------------------------------
+// Where the serialized store lives. Everything above this layer (migrations,
+// validation, tab merging) works on the raw payload string, so adapters only
+// move strings around. Preferences, presence and quarantine stay in
+// localStorage whichever adapter holds the list.
+
+export const STORAGE_KEY = "do-todo";
+/** v1 stored a bare array under this key. It is read once and left as a backup. */
+export const LEGACY_STORAGE_KEY = "do-todo-v1";
+
+/**
+ * @typedef StorageAdapter
+ * @property {string} name
+ * @property {() => Promise<string|null>} read
+ * @property {(update: (raw: string|null) => string|null) => Promise<void>} update
+ *   atomic read-modify-write; returning null skips the write
+ * @property {(onChange: (raw: string) => void) => () => void} subscribe
+ *   called with the payload whenever another tab saves; returns an unsubscribe function
+ */
+
+export function localStorageAdapter() {
+  return {
+    name: "local",
+    async read() {
+      return localStorage.getItem(STORAGE_KEY) ?? localStorage.getItem(LEGACY_STORAGE_KEY);
+    },
+    // localStorage is synchronous, so read and write can't interleave with another tab.
+    async update(fn) {
+      const next = fn(localStorage.getItem(STORAGE_KEY));
+      if (next != null) localStorage.setItem(STORAGE_KEY, next);
+    },
+    subscribe(onChange) {
+      const listener = (e) => {
+        if (e.key === STORAGE_KEY && e.newValue) onChange(e.newValue);
+      };
+      window.addEventListener("storage", listener);
+      return () => window.removeEventListener("storage", listener);
+    },
+  };
+}
+
+const DB_NAME = "do-todo";
+const DB_STORE = "kv";
+const DB_KEY = "store";
+
+function openDB() {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(DB_STORE);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Runs `fn` on the object store inside one transaction and resolves when it commits. */
+async function withStore(mode, fn) {
+  const db = await openDB();
+  try {
+    return await new Promise((resolve, reject) => {
+      const tx = db.transaction(DB_STORE, mode);
+      let result;
+      fn(tx.objectStore(DB_STORE), (value) => (result = value));
+      tx.oncomplete = () => resolve(result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/** IndexedDB has no cross-tab change event, so saves are announced on a channel. */
+export function indexedDBAdapter() {
+  const channel = typeof BroadcastChannel === "undefined" ? null : new BroadcastChannel(`${DB_NAME}-store`);
+  return {
+    name: "indexeddb",
+    read() {
+      return withStore("readonly", (store, done) => {
+        const req = store.get(DB_KEY);
+        req.onsuccess = () => done(req.result ?? null);
+      });
+    },
+    async update(fn) {
+      // The get and put share a readwrite transaction, which IndexedDB runs
+      // exclusively, so two tabs can't interleave their read-merge-write.
+      const written = await withStore("readwrite", (store, done) => {
+        const req = store.get(DB_KEY);
+        req.onsuccess = () => {
+          const next = fn(req.result ?? null);
+          if (next == null) return;
+          store.put(next, DB_KEY);
+          done(next);
+        };
+      });
+      if (written != null) channel?.postMessage(written);
+    },
+    subscribe(onChange) {
+      if (!channel) return () => {};
+      const listener = (e) => onChange(e.data);
+      channel.addEventListener("message", listener);
+      return () => channel.removeEventListener("message", listener);
+    },
+  };
+}
+
+export const STORAGE_ADAPTERS = {
+  local: { label: "Browser storage (localStorage)", create: localStorageAdapter },
+  indexeddb: { label: "IndexedDB", create: indexedDBAdapter },
+};
+
+export function createAdapter(name) {
+  return (STORAGE_ADAPTERS[name] ?? STORAGE_ADAPTERS.local).create();
+}
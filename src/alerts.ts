@@ -0,0 +1,96 @@
+import { formatDuration } from "./quickadd";
+import { thresholdAt } from "./thresholds";
+
+// --- System alerts -------------------------------------------------------
+// Alerts go through the service worker when there is one: it can show them
+// while the tab sits in the background, and it is told ahead of time when
+// each running timer's notification thresholds are due (see pwa/sw.js). The page still checks
+// on its own ticks and shows the same alert by tag, so whichever fires first
+// wins and the other silently replaces it.
+
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(() => {
+      // Without a worker the app still works online, alerting from the page.
+    });
+  });
+}
+
+async function registration() {
+  if (!("serviceWorker" in navigator)) return null;
+  return (await navigator.serviceWorker.getRegistration()) ?? null;
+}
+
+/** Shows a system notification; permission must already be granted. */
+export async function showAlert(title, body, tag) {
+  const reg = await registration();
+  if (reg) {
+    await reg.showNotification(title, { body, tag, icon: `${import.meta.env.BASE_URL}icons/icon-192.png` });
+  } else {
+    new Notification(title, { body, tag });
+  }
+}
+
+export function warningTag(todo, threshold) {
+  return `warn-${todo.id}-${todo.startedAt}-${threshold.id}`;
+}
+
+export function thresholdMessage(todo, threshold) {
+  return `"${todo.title}" reached ${formatDuration(threshold.minutes)}`;
+}
+
+/**
+ * The notifications the given running todos will need, with when they are
+ * due. Only "notify" thresholds can fire without the page; the others need
+ * the app's state.
+ */
+export function warningAlerts(todos) {
+  return todos
+    .filter((t) => t.running && t.startedAt)
+    .flatMap((t) =>
+      (t.alerts || [])
+        .filter((a) => a.action === "notify" && !(t.firedAlerts || []).includes(a.id))
+        .map((a) => ({
+          tag: warningTag(t, a),
+          at: thresholdAt(t, a),
+          title: "Do Todo — Time Alert",
+          body: thresholdMessage(t, a),
+        }))
+    );
+}
+
+let audio = null;
+
+/** A short two-note chime, synthesized so there is no sound file to ship. */
+export function playChime() {
+  const Ctx = window.AudioContext || window.webkitAudioContext;
+  if (!Ctx) return;
+  audio = audio ?? new Ctx();
+  audio.resume?.();
+  const start = audio.currentTime;
+  [880, 1318.5].forEach((freq, i) => {
+    const at = start + i * 0.18;
+    const osc = audio.createOscillator();
+    const gain = audio.createGain();
+    osc.type = "sine";
+    osc.frequency.value = freq;
+    gain.gain.setValueAtTime(0.0001, at);
+    gain.gain.exponentialRampToValueAtTime(0.25, at + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, at + 0.9);
+    osc.connect(gain).connect(audio.destination);
+    osc.start(at);
+    osc.stop(at + 1);
+  });
+}
+
+let scheduledCount = 0;
+
+/** Hands upcoming alerts to the service worker; an empty list cancels them. */
+export async function scheduleAlerts(alerts) {
+  if (!alerts.length && !scheduledCount) return;
+  if (typeof Notification === "undefined" || Notification.permission !== "granted") return;
+  scheduledCount = alerts.length;
+  const reg = await registration();
+  reg?.active?.postMessage({ type: "schedule", alerts });
+}
@@ -1,4 +1,97 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useReducer, useRef, useState } from "react";
+import {
+  closeRun,
+  ensureSessions,
+  fromLocalInput,
+  makeSession,
+  patchSession,
+  removeSession,
+  sessionMs,
+  splitSession,
+  sumSessions,
+  toLocalInput,
+  withSessions,
+} from "./sessions";
+import {
+  MISSED_PHASE_MS,
+  PHASE_LABELS,
+  advanceFocus,
+  focusRemaining,
+  phaseMs,
+  startFocus,
+  stopFocus,
+} from "./focus";
+import { PLACEHOLDERS, fillPlaceholders, instantiateTemplate, templateFromTodo } from "./templates";
+import { checkRange, setWarning, stopTimers, toggleChecked } from "./selection";
+import { calendarDays, calendarRange, exportICS, shiftPeriod } from "./calendar";
+import { archiveCompleted, archiveDays, archiveMonths, monthKey, purgeArchived, restoreArchived } from "./archive";
+import { playChime, scheduleAlerts, showAlert, thresholdMessage, warningAlerts, warningTag } from "./alerts";
+import { ON_TARGET, estimateAccuracy, estimateMs, estimateStatus, lastEstimated, variance } from "./estimates";
+import { readLastActive, resolveIdle, runningSince, watchActivity } from "./idle";
+import { applyChanges, diffCommand, emptyHistory, pushCommand } from "./history";
+import {
+  RECURRENCE_KINDS,
+  WEEKDAY_NAMES,
+  defaultRule,
+  describeRule,
+  nextDue,
+  nextOccurrence,
+} from "./recurrence";
+import { parseInline, parseMarkdown, toggleTask } from "./markdown";
+import { byOrder, moveItem, reorder, topOrder } from "./ordering";
+import { fuzzyScore, rankCommands } from "./palette";
+import { compileQuery, normalizeViews, parseQuery } from "./query";
+import { formatDuration, parseDuration, parseQuickAdd } from "./quickadd";
+import { buildReport, timesheetCSV, weekStart } from "./reports";
+import { STORAGE_ADAPTERS, createAdapter } from "./adapters";
+import {
+  PRIORITIES,
+  loadPrefs,
+  loadTodos,
+  savePrefs,
+  migratePayload,
+  parseStored,
+  saveTodos,
+  validateProject,
+  validateTemplate,
+  validateTodo,
+} from "./storage";
+import { diffChanges, mergeRemote, normalizeSyncSettings, shadowAfterPull, startSync } from "./sync";
+import {
+  ALERT_ACTIONS,
+  dueThresholds,
+  makeThreshold,
+  nextThreshold,
+  passedThresholds,
+  sortThresholds,
+  thresholdAt,
+} from "./thresholds";
+import { TAB_ID, isLeadTab, mergeDeleted, mergeRecords, ownsRun, stampChanges, startPresence } from "./tabs";
+import {
+  completeSubtasks,
+  makeSubtask,
+  moveSubtask,
+  openSubtasks,
+  removeSubtask,
+  renameSubtask,
+  resetSubtasks,
+  subtaskElapsed,
+  subtaskProgress,
+  subtasksElapsed,
+  toggleSubtaskDone,
+  toggleSubtaskRun,
+} from "./subtasks";
+import {
+  applyImport,
+  applyProjectImport,
+  exportCSV,
+  exportJSON,
+  formatThresholds,
+  parseCSV,
+  parseImport,
+  parseThresholds,
+  planImport,
+} from "./transfer";
 
 // --- Types ---------------------------------------------------------------
 /** @typedef {Object} Todo */
@@ -10,21 +103,43 @@ import React, { useEffect, useMemo, useRef, useState } from "react";
  * @property {string} notes
  * @property {boolean} completed
  * @property {number|null} completedAt
+ * @property {number|null} archivedAt // set when a completed todo is moved to the archive
  * @property {number} createdAt
  * @property {boolean} running
- * @property {number} elapsedMs // accumulated time when not running
+ * @property {Session[]} sessions // finished start/stop pairs, oldest first
+ * @property {number} elapsedMs // derived: total of `sessions`
  * @property {number|null} startedAt // timestamp when started (if running)
- * @property {number|null} warningMinutes // warn at X minutes
- * @property {boolean} warned // whether we've already alerted for this run
+ * @property {Threshold[]} alerts // alert thresholds on tracked time, see thresholds.ts
+ * @property {string[]} firedAlerts // thresholds that have fired in the current run
+ * @property {number|null} estimateMinutes // planned time
+ * @property {number} order // position in the Manual sort, smaller first
+ * @property {number} updatedAt // last local change, for merging between tabs
+ * @property {string|null} runOwner // tab that started the current run
+ * @property {string|null} projectId // null = Inbox
+ * @property {string[]} tags // lowercase, without "#"
+ * @property {number|null} due // due date/time
+ * @property {"high"|"medium"|"low"|null} priority
+ * @property {RecurrenceRule|null} recurrence
+ * @property {string|null} seriesId // shared by every occurrence of a recurring todo
+ * @property {Subtask[]} subtasks // checklist items, in display order
+ * @property {FocusState|null} focus // pomodoro phase while in focus mode
+ * @property {number} pomodoros // finished focus work phases
  */
 
 // --- Utilities -----------------------------------------------------------
-const STORAGE_KEY = "do-todo-v1";
-
 function uid() {
   return Math.random().toString(36).slice(2) + Date.now().toString(36);
 }
 
+/** Countdown format: m:ss, or h:mm:ss past an hour. */
+function msToClock(ms) {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
 function msToHMS(ms) {
   const total = Math.max(0, Math.floor(ms / 1000));
   const h = Math.floor(total / 3600);
@@ -35,19 +150,111 @@ function msToHMS(ms) {
     .join(":");
 }
 
-function loadTodos() {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return [];
-    const data = JSON.parse(raw);
-    return Array.isArray(data) ? data : [];
-  } catch (_) {
-    return [];
-  }
+/** Time on a todo including the current run and its subtasks' time. */
+function liveElapsed(t, now) {
+  return t.elapsedMs + (t.running && t.startedAt ? now - t.startedAt : 0) + subtasksElapsed(t.subtasks, now);
+}
+
+/** Comma-separated tag input → normalized tag list ("Acme, #Urgent" → ["acme", "urgent"]). */
+function parseTags(text) {
+  const tags = String(text || "")
+    .split(",")
+    .map((x) => x.trim().replace(/^#+/, "").toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+function formatTags(tags) {
+  return (tags || []).join(", ");
+}
+
+// --- Due dates ----------------------------------------------------------
+const DUE_GROUPS = [
+  { key: "overdue", label: "Overdue" },
+  { key: "today", label: "Today" },
+  { key: "week", label: "This week" },
+  { key: "later", label: "Later" },
+  { key: "none", label: "No date" },
+];
+
+function startOfDay(ms) {
+  const d = new Date(ms);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+}
+
+function addDays(ms, days) {
+  const d = new Date(ms);
+  d.setDate(d.getDate() + days);
+  return d.getTime();
+}
+
+/** Weeks run Monday to Sunday, so "This week" ends at the next Monday 00:00. */
+function dueGroup(due, now) {
+  if (due == null) return "none";
+  if (due < now) return "overdue";
+  const today = startOfDay(now);
+  if (due < addDays(today, 1)) return "today";
+  const daysToMonday = (8 - new Date(today).getDay()) % 7 || 7;
+  if (due < addDays(today, daysToMonday)) return "week";
+  return "later";
+}
+
+function formatDue(due, now) {
+  const d = new Date(due);
+  const time = d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  if (startOfDay(due) === startOfDay(now)) return `Today ${time}`;
+  const sameYear = d.getFullYear() === new Date(now).getFullYear();
+  const date = d.toLocaleDateString([], {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: sameYear ? undefined : "numeric",
+  });
+  return `${date} ${time}`;
+}
+
+const PRIORITY_RANK = { high: 0, medium: 1, low: 2 };
+const PRIORITY_COLORS = {
+  high: "bg-red-100 text-red-700 border-red-300",
+  medium: "bg-amber-100 text-amber-700 border-amber-300",
+  low: "bg-slate-100 text-slate-600 border-slate-300",
+};
+
+function priorityRank(p) {
+  return PRIORITY_RANK[p] ?? PRIORITIES.length;
+}
+
+const SORT_OPTIONS = [
+  ["created-desc", "Newest"],
+  ["created-asc", "Oldest"],
+  ["alpha", "A–Z"],
+  ["time-desc", "Most Time"],
+  ["due-asc", "Due date"],
+  ["priority", "Priority"],
+  ["manual", "Manual"],
+];
+
+function dateStamp(ms = Date.now()) {
+  const d = new Date(ms);
+  return [d.getFullYear(), d.getMonth() + 1, d.getDate()]
+    .map((n) => String(n).padStart(2, "0"))
+    .join("-");
+}
+
+/** Parses a date input value ("YYYY-MM-DD") as local midnight. */
+function fromDateInput(value) {
+  const [y, m, d] = String(value).split("-").map(Number);
+  return y && m && d ? new Date(y, m - 1, d).getTime() : null;
 }
 
-function saveTodos(todos) {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(todos));
+function downloadFile(filename, text, type) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
 }
 
 // --- Small UI helpers ----------------------------------------------------
@@ -85,17 +292,22 @@ function TextButton({ children, onClick }) {
 // --- Toasts --------------------------------------------------------------
 function useToasts() {
   const [toasts, setToasts] = useState([]);
-  function pushToast(msg) {
-    const id = uid();
-    setToasts((t) => [...t, { id, msg }]);
-    setTimeout(() => {
-      setToasts((t) => t.filter((x) => x.id !== id));
-    }, 4000);
-  }
-  return { toasts, pushToast };
+  const dismissToast = useCallback((id) => {
+    setToasts((t) => t.filter((x) => x.id !== id));
+  }, []);
+  /** `action` ({ label, onClick }) adds a button; such toasts stay a little longer. */
+  const pushToast = useCallback(
+    (msg, action = null) => {
+      const id = uid();
+      setToasts((t) => [...t, { id, msg, action }]);
+      setTimeout(() => dismissToast(id), action ? 8000 : 4000);
+    },
+    [dismissToast]
+  );
+  return { toasts, pushToast, dismissToast };
 }
 
-function ToastLayer({ toasts }) {
+function ToastLayer({ toasts, onDismiss }) {
   return (
     <div className="pointer-events-none fixed inset-x-0 top-2 z-50 flex justify-center">
       <div className="flex w-full max-w-xl flex-col gap-2 px-2">
@@ -104,7 +316,20 @@ function ToastLayer({ toasts }) {
             key={t.id}
             className="pointer-events-auto rounded-2xl border bg-indigo-600/90 text-white p-3 shadow-lg backdrop-blur"
           >
-            <div className="text-sm">{t.msg}</div>
+            <div className="flex items-center justify-between gap-3">
+              <div className="text-sm">{t.msg}</div>
+              {t.action && (
+                <button
+                  onClick={() => {
+                    t.action.onClick();
+                    onDismiss(t.id);
+                  }}
+                  className="shrink-0 rounded-xl border border-white/60 px-3 py-1 text-sm font-medium hover:bg-white/10"
+                >
+                  {t.action.label}
+                </button>
+              )}
+            </div>
           </div>
         ))}
       </div>
@@ -114,83 +339,322 @@ function ToastLayer({ toasts }) {
 
 // --- Main App ------------------------------------------------------------
 export default function DoTodoApp() {
-  const [todos, setTodos] = useState(() => loadTodos());
+  const [prefs, setPrefs] = useState(() => loadPrefs());
+  const adapter = useMemo(() => createAdapter(prefs.storage), [prefs.storage]);
+  const [ready, setReady] = useState(false); // false until the list has been read
+  const [todos, setTodos] = useState([]);
+  const [projects, setProjects] = useState([]);
+  const [templates, setTemplates] = useState([]);
+  const deletedRef = useRef({});
   const [query, setQuery] = useState("");
+  const [projectFilter, setProjectFilter] = useState("all"); // "all" | "inbox" | project id
+  const [tagFilter, setTagFilter] = useState("");
   const [showCompleted, setShowCompleted] = useState(true);
   const [sort, setSort] = useState("created-desc");
+  const [groupByDue, setGroupByDue] = useState(false);
   const [nowTick, setNowTick] = useState(Date.now());
-  const { toasts, pushToast } = useToasts();
+  const [pendingImport, setPendingImport] = useState(null);
+  const [view, setView] = useState("tasks"); // "tasks" | "reports" | "calendar" | "archive"
+  const [selectedId, setSelectedId] = useState(null);
+  const [checked, setChecked] = useState([]); // ids ticked for batch actions
+  const checkAnchorRef = useRef(null); // the last row ticked, for shift-click ranges
+  const [editRequest, setEditRequest] = useState(null); // id of the row asked to open its editor
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [showHelp, setShowHelp] = useState(false);
+  const [idlePrompt, setIdlePrompt] = useState(null); // { since, at } after an idle period
+  const [drag, setDrag] = useState(null); // { id, to } while a row is being dragged
+  const searchRef = useRef(null);
+  const newTitleRef = useRef(null);
+  const [syncStatus, setSyncStatus] = useState(SYNC_OFF);
+  const syncRef = useRef(null);
+  // The lists as of the latest change. Changes write it before React renders
+  // them, so several changes in one event build on each other.
+  const storeRef = useRef({ todos, projects, templates });
+  storeRef.current = { todos, projects, templates };
+  const { toasts, pushToast, dismissToast } = useToasts();
+  const historyRef = useRef(emptyHistory());
+  const loadAdapterRef = useRef(adapter); // the adapter in use at startup
+  const [, bumpHistory] = useReducer((n) => n + 1, 0);
+
+  // Load the list once, from the adapter in use at startup. Adapters are
+  // asynchronous (IndexedDB), so the app shows a loading screen until this
+  // resolves.
+  useEffect(() => {
+    let cancelled = false;
+    loadTodos(loadAdapterRef.current).then((loaded) => {
+      if (cancelled) return;
+      deletedRef.current = loaded.deleted;
+      setTodos(loaded.todos);
+      setProjects(loaded.projects);
+      setTemplates(loaded.templates);
+      setReady(true);
+      // Tell the user about records that failed migration or validation
+      const n = loaded.quarantined.length;
+      if (n) pushToast(`⚠️ ${n} unreadable ${n === 1 ? "entry was" : "entries were"} set aside in storage`);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [pushToast]);
+
+  // Persist. Switching adapters saves the current list into the new one.
+  useEffect(() => {
+    if (!ready) return;
+    saveTodos({ todos, projects, templates, deleted: deletedRef.current }, adapter).catch(() =>
+      pushToast("⚠️ Couldn't save to storage")
+    );
+  }, [todos, projects, templates, adapter, ready, pushToast]);
+
+  // Merge saves made by other tabs
+  useEffect(
+    () =>
+      adapter.subscribe((raw) => {
+        const remote = parseStored(raw);
+        deletedRef.current = mergeDeleted(deletedRef.current, remote.deleted);
+        for (const key of ["todos", "projects", "templates"]) {
+          commitList(key, mergeRecords(storeRef.current[key], remote[key], deletedRef.current));
+        }
+      }),
+    [adapter]
+  );
+
+  // Server sync (optional). Pulled records are merged field by field; a
+  // record deleted on the server leaves a tombstone so other tabs drop it too.
+  useEffect(() => {
+    if (!ready || !prefs.sync.url) {
+      setSyncStatus(SYNC_OFF);
+      return;
+    }
+    function pullInto(collection, records, shadow, validate) {
+      const prev = storeRef.current[collection];
+      const { list, removed } = mergeRemote(prev, records, shadow, collection, validate, deletedRef.current);
+      if (removed.length) {
+        const now = Date.now();
+        deletedRef.current = { ...deletedRef.current, ...Object.fromEntries(removed.map((id) => [id, now])) };
+      }
+      commitList(collection, list);
+    }
+    // Built from the effect's own dependencies, so it is never stale.
+    const settings = normalizeSyncSettings({ url: prefs.sync.url, token: prefs.sync.token });
+    const sync = startSync(settings, {
+      getStore: () => ({ ...storeRef.current, deleted: deletedRef.current }),
+      onPull(records, shadow) {
+        pullInto("todos", records, shadow, validateTodo);
+        pullInto("projects", records, shadow, validateProject);
+        pullInto("templates", records, shadow, validateTemplate);
+      },
+      onStatus: setSyncStatus,
+      isLead: () => isLeadTab(),
+    });
+    syncRef.current = sync;
+    return () => {
+      sync.stop();
+      syncRef.current = null;
+    };
+  }, [prefs.sync.url, prefs.sync.token, ready]);
+
+  useEffect(() => {
+    syncRef.current?.poke();
+  }, [todos, projects, templates]);
 
-  // Persist
   useEffect(() => {
-    saveTodos(todos);
-  }, [todos]);
+    savePrefs(prefs);
+  }, [prefs]);
+
+  // Heartbeat so other tabs know who can still fire alerts
+  useEffect(() => startPresence(), []);
 
-  // Global ticker: update every second if any timers are running
-  const anyRunning = useMemo(() => todos.some((t) => t.running), [todos]);
+  // Global ticker: update every second if any timers are running, otherwise
+  // every minute so due dates still turn overdue on time
+  const anyRunning = useMemo(
+    () => todos.some((t) => t.running || t.focus || (t.subtasks || []).some((s) => s.running)),
+    [todos]
+  );
   useEffect(() => {
-    if (!anyRunning) return;
-    const id = setInterval(() => setNowTick(Date.now()), 1000);
+    const id = setInterval(() => setNowTick(Date.now()), anyRunning ? 1000 : 60_000);
     return () => clearInterval(id);
   }, [anyRunning]);
 
-  // Warning checks
+  // Idle detection: when the user comes back after a gap, ask what to do
+  // with the time the running timers counted meanwhile.
   useEffect(() => {
-    todos.forEach((t) => {
-      if (!t.running || !t.warningMinutes || t.warned) return;
-      const elapsed = t.elapsedMs + (t.startedAt ? nowTick - t.startedAt : 0);
-      const warnMs = t.warningMinutes * 60 * 1000;
-      if (elapsed >= warnMs) {
-        setTodos((prev) =>
-          prev.map((x) => (x.id === t.id ? { ...x, warned: true } : x))
-        );
-        // Attempt Notification API, fall back to toast
-        if (typeof window !== "undefined" && "Notification" in window) {
-          if (Notification.permission === "granted") {
-            new Notification("Do Todo — Time Alert", {
-              body: `"${t.title}" reached ${t.warningMinutes} min`,
-            });
-          } else if (Notification.permission !== "denied") {
-            Notification.requestPermission().then((perm) => {
-              if (perm === "granted") {
-                new Notification("Do Todo — Time Alert", {
-                  body: `"${t.title}" reached ${t.warningMinutes} min`,
-                });
-              } else {
-                pushToast(`⏰ ${t.title} reached ${t.warningMinutes} min`);
-              }
-            });
+    if (!prefs.idleMinutes) return;
+    return watchActivity(prefs.idleMinutes * 60_000, (since, at) => setIdlePrompt((p) => p ?? { since, at }));
+  }, [prefs.idleMinutes]);
+
+  // A timer still running from a previous day was most likely forgotten.
+  // Checked once the list is read, not on every change to it.
+  useEffect(() => {
+    const now = Date.now();
+    const { todos } = storeRef.current;
+    if (!ready || !prefs.idleMinutes || !todos.some((t) => runningSince(t, startOfDay(now)))) return;
+    const since = readLastActive() ?? startOfDay(now);
+    if (now - since >= prefs.idleMinutes * 60_000) setIdlePrompt({ since, at: now });
+  }, [ready, prefs.idleMinutes]);
+
+  const idleTodos = idlePrompt ? todos.filter((t) => runningSince(t, idlePrompt.since)) : [];
+  useEffect(() => {
+    if (idlePrompt && !idleTodos.length) setIdlePrompt(null);
+  });
+
+  function resolveIdlePrompt(choice) {
+    const { since, at } = idlePrompt;
+    setIdlePrompt(null);
+    if (choice === "keep") return;
+    perform(choice === "stop" ? "stop idle timers" : "discard idle time", (prev) =>
+      prev.map((t) => (runningSince(t, since) ? resolveIdle(t, choice, since, at) : t))
+    );
+  }
+
+  // Attempt Notification API, fall back to toast
+  function notify(title, body, toast, tag) {
+    if (typeof window !== "undefined" && "Notification" in window) {
+      if (Notification.permission === "granted") {
+        showAlert(title, body, tag).catch(() => pushToast(toast));
+      } else if (Notification.permission !== "denied") {
+        Notification.requestPermission().then((perm) => {
+          if (perm === "granted") {
+            showAlert(title, body, tag).catch(() => pushToast(toast));
           } else {
-            pushToast(`⏰ ${t.title} reached ${t.warningMinutes} min`);
+            pushToast(toast);
           }
-        } else {
-          pushToast(`⏰ ${t.title} reached ${t.warningMinutes} min`);
-        }
+        });
+      } else {
+        pushToast(toast);
       }
+    } else {
+      pushToast(toast);
+    }
+  }
+
+  function stopRunAt(id, at) {
+    changeTodos((prev) =>
+      prev.map((x) => (x.id === id && x.running ? (x.focus ? stopFocus(x, at) : closeRun(x, at)) : x))
+    );
+  }
+
+  function fireThreshold(t, a) {
+    const message = thresholdMessage(t, a);
+    switch (a.action) {
+      case "toast":
+        pushToast(`⏰ ${message}`);
+        break;
+      case "chime":
+        playChime();
+        pushToast(`🎵 ${message}`);
+        break;
+      case "stop":
+        // Stopped at the threshold, not when a throttled tab noticed. An
+        // automatic change, so it stays out of the undo history.
+        stopRunAt(t.id, Math.max(thresholdAt(t, a), t.startedAt));
+        pushToast(`⏹ Timer stopped: ${message}`);
+        break;
+      default:
+        notify("Do Todo — Time Alert", message, `⏰ ${message}`, warningTag(t, a));
+    }
+  }
+
+  // The timer effects below reach this render's callbacks through a ref, so
+  // they run once per tick or list change rather than on every render.
+  const timerActionsRef = useRef(null);
+  timerActionsRef.current = { changeTodos, fireThreshold, notify };
+
+  // Alert thresholds: each fires once per run, in order. Nothing after an
+  // auto-stop fires, since the run is over.
+  useEffect(() => {
+    const { changeTodos, fireThreshold } = timerActionsRef.current;
+    todos.forEach((t) => {
+      if (!t.running || !t.startedAt) return;
+      const due = dueThresholds(t, t.elapsedMs + nowTick - t.startedAt);
+      if (!due.length) return;
+      if (!ownsRun(t, nowTick)) return; // another tab alerts for this run
+      const stop = due.findIndex((a) => a.action === "stop");
+      const fire = stop === -1 ? due : due.slice(0, stop + 1);
+      const ids = fire.map((a) => a.id);
+      changeTodos((prev) =>
+        prev.map((x) => (x.id === t.id ? { ...x, firedAlerts: [...(x.firedAlerts || []), ...ids] } : x))
+      );
+      fire.forEach((a) => fireThreshold(t, a));
     });
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [nowTick, todos]);
 
+  // Tell the service worker which warnings are coming so they fire on time
+  // in a background tab. Re-sent every tick, which keeps the worker awake.
+  useEffect(() => {
+    scheduleAlerts(warningAlerts(todos.filter((t) => ownsRun(t, nowTick))));
+  }, [nowTick, todos]);
+
+  // Focus mode: move on to the next phase when one ends. After the app was
+  // closed, the work phase in progress is closed at its end and focus mode
+  // stops at the break that was missed (see advanceFocus).
+  useEffect(() => {
+    const { changeTodos, notify } = timerActionsRef.current;
+    todos.forEach((t) => {
+      if (!t.focus || nowTick < t.focus.endsAt) return;
+      if (!ownsRun(t, nowTick)) return;
+      const step = advanceFocus(t, prefs.focus, nowTick);
+      if (!step) return;
+      changeTodos((prev) => prev.map((x) => (x.id === t.id && x.focus ? step.todo : x)));
+      if (step.missed) {
+        pushToast(`Focus on “${t.title}” ended while the app was closed`);
+        return;
+      }
+      if (nowTick - t.focus.endsAt > MISSED_PHASE_MS) return;
+      const next = step.todo.focus.phase;
+      const minutes = phaseMs(next, prefs.focus) / 60_000;
+      const body =
+        step.finished === "work"
+          ? `"${t.title}": pomodoro ${step.todo.pomodoros} done. ${PHASE_LABELS[next]} for ${minutes} min.`
+          : `"${t.title}": break over. Focus for ${minutes} min.`;
+      notify("Do Todo — Focus", body, `🍅 ${body}`, `focus-${t.id}`);
+    });
+  }, [nowTick, todos, prefs.focus, pushToast]);
+
+  // If the selected project or tag disappears (deleted here or in another
+  // tab), fall back to showing everything rather than an empty list.
+  useEffect(() => {
+    if (projectFilter !== "all" && projectFilter !== "inbox" && !projects.some((p) => p.id === projectFilter)) {
+      setProjectFilter("all");
+    }
+  }, [projects, projectFilter]);
+
   // Derived lists
+  const allTags = useMemo(
+    () => Array.from(new Set(todos.flatMap((t) => t.tags || []))).sort(),
+    [todos]
+  );
+
+  const parsedQuery = useMemo(() => parseQuery(query), [query]);
+
   const filtered = useMemo(() => {
-    const q = query.trim().toLowerCase();
-    const list = q
-      ? todos.filter(
-          (t) =>
-            t.title.toLowerCase().includes(q) ||
-            (t.notes || "").toLowerCase().includes(q)
-        )
-      : todos.slice();
+    const matches = compileQuery(parsedQuery);
+    const ctx = { now: nowTick, projects };
+    const list = todos.filter((t) => {
+      if (t.archivedAt != null) return false;
+      if (projectFilter === "inbox" && t.projectId) return false;
+      if (projectFilter !== "all" && projectFilter !== "inbox" && t.projectId !== projectFilter) return false;
+      if (tagFilter && !(t.tags || []).includes(tagFilter)) return false;
+      return matches(t, ctx);
+    });
 
     list.sort((a, b) => {
       switch (sort) {
         case "alpha":
           return a.title.localeCompare(b.title);
         case "time-desc": {
-          const at = a.elapsedMs + (a.running ? nowTick - (a.startedAt || 0) : 0);
-          const bt = b.elapsedMs + (b.running ? nowTick - (b.startedAt || 0) : 0);
-          return bt - at;
+          return liveElapsed(b, nowTick) - liveElapsed(a, nowTick);
         }
+        case "due-asc":
+          // Undated tasks go last
+          return (a.due ?? Infinity) - (b.due ?? Infinity) || b.createdAt - a.createdAt;
+        case "priority":
+          return (
+            priorityRank(a.priority) - priorityRank(b.priority) ||
+            (a.due ?? Infinity) - (b.due ?? Infinity) ||
+            b.createdAt - a.createdAt
+          );
+        case "manual":
+          return byOrder(a, b);
         case "created-asc":
           return a.createdAt - b.createdAt;
         case "created-desc":
@@ -200,99 +664,733 @@ export default function DoTodoApp() {
     });
 
     return list;
-  }, [todos, query, sort, nowTick]);
+  }, [todos, parsedQuery, sort, nowTick, projects, projectFilter, tagFilter]);
 
   const active = filtered.filter((t) => !t.completed);
   const completed = filtered.filter((t) => t.completed);
+  const canReorder = sort === "manual" && !groupByDue;
+  const shownActive = drag ? moveItem(active, drag.id, drag.to) : active;
+  const activeGroups = groupByDue
+    ? DUE_GROUPS.map((g) => ({ ...g, todos: active.filter((t) => dueGroup(t.due, nowTick) === g.key) }))
+        .filter((g) => g.todos.length)
+    : null;
 
   // Actions
-  function addTodo({ title, notes, warningMinutes }) {
+  /** Replaces a list ("todos", "projects" or "templates") in storeRef and in state. */
+  function commitList(key, next) {
+    if (next === storeRef.current[key]) return;
+    storeRef.current = { ...storeRef.current, [key]: next };
+    ({ todos: setTodos, projects: setProjects, templates: setTemplates })[key](next);
+  }
+
+  // Every local change goes through these so changed records get a fresh
+  // `updatedAt` and removed ones a tombstone for the other tabs. The next
+  // list is worked out here rather than in a state updater, which React may
+  // call twice and which must not touch refs.
+  function changeList(key, update) {
+    const prev = storeRef.current[key];
+    const next = update(prev);
+    if (next === prev) return;
+    const stamped = stampChanges(prev, next, deletedRef.current);
+    deletedRef.current = stamped.deleted;
+    commitList(key, stamped.records);
+  }
+
+  function changeTodos(update) {
+    changeList("todos", update);
+  }
+
+  function changeProjects(update) {
+    changeList("projects", update);
+  }
+
+  function changeTemplates(update) {
+    changeList("templates", update);
+  }
+
+  // User actions on todos also go through the command history so they can
+  // be undone. Automatic changes (alerts, focus phases, other tabs) don't.
+  /** Returns the id of the recorded command, or null when nothing changed. */
+  function perform(label, update) {
+    const prev = storeRef.current.todos;
+    const next = update(prev);
+    if (next === prev) return null;
+    const cmdId = uid();
+    historyRef.current = pushCommand(historyRef.current, diffCommand(prev, next, label, cmdId));
+    changeTodos(() => next);
+    bumpHistory();
+    return cmdId;
+  }
+
+  function undo() {
+    const { past, future } = historyRef.current;
+    const cmd = past[past.length - 1];
+    if (!cmd) return;
+    historyRef.current = { past: past.slice(0, -1), future: [...future, cmd] };
+    changeTodos((prev) => applyChanges(prev, cmd.changes, "before"));
+    bumpHistory();
+    pushToast(`Undid ${cmd.label}`);
+  }
+
+  function redo() {
+    const { past, future } = historyRef.current;
+    const cmd = future[future.length - 1];
+    if (!cmd) return;
+    historyRef.current = { past: [...past, cmd], future: future.slice(0, -1) };
+    changeTodos((prev) => applyChanges(prev, cmd.changes, "after"));
+    bumpHistory();
+    pushToast(`Redid ${cmd.label}`);
+  }
+
+  /** Undo for a toast button: the command may no longer be the latest one. */
+  function undoCommand(cmdId) {
+    const { past, future } = historyRef.current;
+    const cmd = past.find((c) => c.id === cmdId);
+    if (!cmd) return;
+    if (cmd === past[past.length - 1]) return undo();
+    historyRef.current = { past: past.filter((c) => c !== cmd), future };
+    changeTodos((prev) => applyChanges(prev, cmd.changes, "before"));
+    bumpHistory();
+  }
+
+  function addTodo({
+    title,
+    notes,
+    alerts = [],
+    projectId = null,
+    tags = [],
+    due = null,
+    priority = null,
+    recurrence = null,
+    estimateMinutes = null,
+    subtasks = [],
+  }) {
+    const id = uid();
     const newTodo = {
-      id: uid(),
+      id,
       title: title.trim(),
       notes: (notes || "").trim(),
       completed: false,
       completedAt: null,
       createdAt: Date.now(),
       running: false,
+      sessions: [],
       elapsedMs: 0,
       startedAt: null,
-      warningMinutes: warningMinutes ? Number(warningMinutes) : null,
-      warned: false,
+      alerts,
+      firedAlerts: [],
+      estimateMinutes,
+      updatedAt: Date.now(),
+      runOwner: null,
+      projectId,
+      tags,
+      due,
+      priority,
+      recurrence,
+      seriesId: recurrence ? id : null,
+      subtasks,
+      focus: null,
+      pomodoros: 0,
     };
-    setTodos((t) => [newTodo, ...t]);
+    perform("add task", (t) => [{ ...newTodo, order: topOrder(t) }, ...t]);
   }
 
   function toggleRun(id) {
-    setTodos((prev) =>
+    const running = todos.find((t) => t.id === id)?.running;
+    perform(running ? "stop timer" : "start timer", (prev) =>
       prev.map((t) => {
         if (t.id !== id) return t;
         if (t.completed) return t; // no running completed
+        if (t.focus) return stopFocus(t); // manual start/stop leaves focus mode
         if (t.running) {
-          // stop
-          const now = Date.now();
-          const extra = t.startedAt ? now - t.startedAt : 0;
-          return {
-            ...t,
-            running: false,
-            elapsedMs: t.elapsedMs + extra,
-            startedAt: null,
-          };
+          // stop: the open run becomes a session
+          return closeRun(t);
         } else {
           // start
           return {
             ...t,
             running: true,
             startedAt: Date.now(),
-            warned: false, // reset warning for new run
+            runOwner: TAB_ID,
+            firedAlerts: passedThresholds(t.alerts, t.elapsedMs), // a new run alerts afresh
           };
         }
       })
     );
   }
 
+  // Completing a recurring todo records this occurrence in Completed (as a
+  // one-off, so undoing it can't fork the series) and queues the next one.
   function markComplete(id) {
-    setTodos((prev) =>
-      prev.map((t) => {
-        if (t.id !== id) return t;
-        let elapsedMs = t.elapsedMs;
-        if (t.running && t.startedAt) {
-          elapsedMs += Date.now() - t.startedAt;
-        }
+    completeTodos([id], "complete task");
+  }
+
+  function completeTodos(ids, label) {
+    return perform(label, (prev) => {
+      const now = Date.now();
+      const spawned = [];
+      const next = prev.map((t) => {
+        if (!ids.includes(t.id)) return t;
+        if (t.recurrence && !t.completed) spawned.push(nextOccurrenceOf(t, now));
         return {
-          ...t,
-          running: false,
-          startedAt: null,
-          elapsedMs,
+          ...closeRun(t),
+          focus: null,
           completed: true,
-          completedAt: Date.now(),
+          completedAt: now,
+          recurrence: null,
+          subtasks: completeSubtasks(t.subtasks, now),
         };
+      });
+      return [...spawned, ...next];
+    });
+  }
+
+  function nextOccurrenceOf(t, now) {
+    return {
+      ...t,
+      id: uid(),
+      createdAt: now,
+      completed: false,
+      completedAt: null,
+      running: false,
+      startedAt: null,
+      sessions: [],
+      elapsedMs: 0,
+      firedAlerts: [],
+      runOwner: null,
+      due: nextDue(t, now),
+      subtasks: resetSubtasks(t.subtasks),
+      focus: null,
+      pomodoros: 0,
+    };
+  }
+
+  function toggleFocus(id) {
+    perform("focus mode", (prev) =>
+      prev.map((t) => {
+        if (t.id !== id || t.completed) return t;
+        if (t.focus) return stopFocus(t);
+        return { ...startFocus(t, prefs.focus), runOwner: TAB_ID };
       })
     );
   }
 
+  function skipOccurrence(id) {
+    perform("skip occurrence", (prev) =>
+      prev.map((t) => (t.id === id && t.recurrence ? { ...t, due: nextDue(t) } : t))
+    );
+  }
+
+  function endSeries(id) {
+    perform("end series", (prev) => prev.map((t) => (t.id === id ? { ...t, recurrence: null } : t)));
+  }
+
   function undoComplete(id) {
-    setTodos((prev) =>
-      prev.map((t) => (t.id === id ? { ...t, completed: false, completedAt: null } : t))
+    reopenTodos([id], "undo complete");
+  }
+
+  function reopenTodos(ids, label) {
+    return perform(label, (prev) =>
+      prev.map((t) => (ids.includes(t.id) ? { ...t, completed: false, completedAt: null } : t))
     );
   }
 
   function removeTodo(id) {
-    setTodos((prev) => prev.filter((t) => t.id !== id));
+    const title = todos.find((t) => t.id === id)?.title ?? "task";
+    const cmdId = perform("delete task", (prev) => prev.filter((t) => t.id !== id));
+    pushToast(`Deleted “${title}”`, { label: "Undo", onClick: () => undoCommand(cmdId) });
   }
 
   function updateTodo(id, patch) {
-    setTodos((prev) => prev.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+    perform("edit task", (prev) => prev.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+  }
+
+  function toggleNoteTask(id, line) {
+    perform("tick checklist item", (prev) =>
+      prev.map((t) => (t.id === id ? { ...t, notes: toggleTask(t.notes, line) } : t))
+    );
+  }
+
+  function updateSessions(id, sessions) {
+    perform("edit sessions", (prev) => prev.map((t) => (t.id === id ? withSessions(t, sessions) : t)));
   }
 
   function clearCompleted() {
-    setTodos((prev) => prev.filter((t) => !t.completed));
+    const n = todos.filter((t) => t.completed && t.archivedAt == null).length;
+    const cmdId = perform("archive completed", (prev) => archiveCompleted(prev));
+    pushToast(`Archived ${n} completed ${n === 1 ? "task" : "tasks"}`, {
+      label: "Undo",
+      onClick: () => undoCommand(cmdId),
+    });
+  }
+
+  function archiveTodo(id) {
+    const cmdId = perform("archive task", (prev) => archiveCompleted(prev, [id]));
+    pushToast("Moved to the archive", { label: "Undo", onClick: () => undoCommand(cmdId) });
+  }
+
+  function restoreTodos(ids) {
+    const cmdId = perform("restore from archive", (prev) => restoreArchived(prev, ids));
+    pushToast(`Restored ${ids.length} ${ids.length === 1 ? "task" : "tasks"} to Active`, {
+      label: "Undo",
+      onClick: () => undoCommand(cmdId),
+    });
+  }
+
+  function purgeTodos(ids) {
+    const cmdId = perform("delete from archive", (prev) => purgeArchived(prev, ids));
+    pushToast(`Deleted ${ids.length} archived ${ids.length === 1 ? "task" : "tasks"}`, {
+      label: "Undo",
+      onClick: () => undoCommand(cmdId),
+    });
+  }
+
+  function addProject(name) {
+    const now = Date.now();
+    const project = { id: uid(), name: name.trim(), createdAt: now, updatedAt: now };
+    changeProjects((prev) => [...prev, project]);
+    setProjectFilter(project.id);
+  }
+
+  function renameProject(id, name) {
+    changeProjects((prev) => prev.map((p) => (p.id === id ? { ...p, name: name.trim() } : p)));
+  }
+
+  // Todos of a deleted project move to the Inbox rather than disappearing.
+  function removeProject(id) {
+    changeTodos((prev) => prev.map((t) => (t.projectId === id ? { ...t, projectId: null } : t)));
+    changeProjects((prev) => prev.filter((p) => p.id !== id));
+  }
+
+  // --- Templates ---------------------------------------------------------
+  // Like projects, template edits aren't part of the task undo history.
+  function saveTemplate(id) {
+    const todo = todos.find((t) => t.id === id);
+    if (!todo) return;
+    changeTemplates((prev) => [...prev, templateFromTodo(todo, uid())]);
+    pushToast(`Saved “${todo.title}” as a template`);
+  }
+
+  function updateTemplate(id, patch) {
+    changeTemplates((prev) => prev.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+  }
+
+  function removeTemplate(id) {
+    changeTemplates((prev) => prev.filter((t) => t.id !== id));
+  }
+
+  // A full JSON export is the backup, so it carries the template library too.
+  function exportTodos(format, list = todos, suffix = "") {
+    const name = `do-todo-${dateStamp()}${suffix}.${format}`;
+    if (format === "csv") downloadFile(name, exportCSV(list, projects), "text/csv");
+    else downloadFile(name, exportJSON(list, projects, list === todos ? templates : []), "application/json");
+  }
+
+  async function readImportFile(file) {
+    const result = parseImport(await file.text());
+    if (!result.ok) {
+      pushToast(`Import failed: ${result.error}`);
+      return;
+    }
+    setPendingImport({
+      fileName: file.name,
+      todos: result.todos,
+      projects: result.projects,
+      templates: result.templates,
+      rejected: result.rejected,
+    });
+  }
+
+  function finishImport(mode, choices) {
+    const incoming = pendingImport.todos;
+    const incomingProjects = pendingImport.projects;
+    const cmdId = perform("import", (prev) => applyImport(prev, incoming, mode, choices));
+    changeProjects((prev) => applyProjectImport(prev, incomingProjects, mode));
+    // CSV files carry no templates; they mustn't empty the library.
+    const incomingTemplates = pendingImport.templates;
+    if (incomingTemplates.length) changeTemplates((prev) => applyProjectImport(prev, incomingTemplates, mode));
+    setPendingImport(null);
+    pushToast(
+      mode === "replace"
+        ? `Replaced list with ${incoming.length} imported ${incoming.length === 1 ? "task" : "tasks"}`
+        : `Merged ${incoming.length} imported ${incoming.length === 1 ? "task" : "tasks"}`,
+      { label: "Undo", onClick: () => undoCommand(cmdId) }
+    );
+  }
+
+  // --- Keyboard ----------------------------------------------------------
+  // The selection walks the lists in display order; single-key shortcuts act
+  // on it. Keys typed into fields are left alone, except Ctrl+K and Escape.
+  const navOrder = view === "tasks"
+    ? [...(activeGroups ? activeGroups.flatMap((g) => g.todos) : active), ...(showCompleted ? completed : [])]
+    : [];
+  const selected = navOrder.find((t) => t.id === selectedId) ?? null;
+
+  // --- Multi-select ------------------------------------------------------
+  // Batch actions apply to the ticked rows that are shown. Ticks on rows a
+  // filter hides are kept for when the rows come back.
+  const checkedTodos = navOrder.filter((t) => checked.includes(t.id));
+
+  function checkTodo(id, shift) {
+    const anchor = checkAnchorRef.current;
+    const order = navOrder.map((t) => t.id);
+    setChecked((c) => (shift && anchor ? checkRange(c, order, anchor, id) : toggleChecked(c, id)));
+    checkAnchorRef.current = id;
+  }
+
+  function checkAllMatching() {
+    setChecked(navOrder.map((t) => t.id));
+  }
+
+  function clearChecked() {
+    setChecked([]);
+    checkAnchorRef.current = null;
+  }
+
+  // Batch actions with nothing to act on record nothing and say nothing.
+  function batchToast(cmdId, msg) {
+    if (cmdId) pushToast(msg, { label: "Undo", onClick: () => undoCommand(cmdId) });
+  }
+
+  const plural = (n) => `${n} ${n === 1 ? "task" : "tasks"}`;
+
+  function completeChecked() {
+    const ids = checkedTodos.filter((t) => !t.completed).map((t) => t.id);
+    if (!ids.length) return;
+    batchToast(completeTodos(ids, "complete tasks"), `Completed ${plural(ids.length)}`);
+  }
+
+  function reopenChecked() {
+    const ids = checkedTodos.filter((t) => t.completed).map((t) => t.id);
+    if (!ids.length) return;
+    batchToast(reopenTodos(ids, "undo complete"), `Moved ${plural(ids.length)} back to Active`);
+  }
+
+  function stopChecked() {
+    const ids = checkedTodos.map((t) => t.id);
+    batchToast(perform("stop timers", (prev) => stopTimers(prev, ids)), "Stopped the timers");
+  }
+
+  function warnChecked(minutes) {
+    const ids = checkedTodos.filter((t) => !t.completed).map((t) => t.id);
+    if (!ids.length) return;
+    const cmdId = perform("set warning", (prev) => setWarning(prev, ids, minutes));
+    batchToast(cmdId, minutes ? `Warning at ${formatDuration(minutes)} on ${plural(ids.length)}` : "Warnings removed");
+  }
+
+  function deleteChecked() {
+    const ids = checkedTodos.map((t) => t.id);
+    if (!ids.length) return;
+    const cmdId = perform("delete tasks", (prev) => prev.filter((t) => !ids.includes(t.id)));
+    clearChecked();
+    batchToast(cmdId, `Deleted ${plural(ids.length)}`);
+  }
+
+  useEffect(() => {
+    if (!selectedId) return;
+    document.querySelector(`[data-todo-id="${selectedId}"]`)?.scrollIntoView({ block: "nearest" });
+  }, [selectedId]);
+
+  function moveSelection(delta) {
+    if (!navOrder.length) return;
+    const i = navOrder.findIndex((t) => t.id === selectedId);
+    const next = i === -1 ? (delta > 0 ? 0 : navOrder.length - 1) : Math.min(navOrder.length - 1, Math.max(0, i + delta));
+    setSelectedId(navOrder[next].id);
+  }
+
+  function editTodo(id) {
+    setEditRequest(id);
+  }
+
+  function focusNewTask() {
+    setView("tasks");
+    setTimeout(() => newTitleRef.current?.focus(), 0);
+  }
+
+  function focusSearch() {
+    setView("tasks");
+    setTimeout(() => searchRef.current?.focus(), 0);
+  }
+
+  function goToTodo(id) {
+    setView("tasks");
+    if (!navOrder.some((t) => t.id === id)) {
+      setQuery("");
+      setProjectFilter("all");
+      setTagFilter("");
+      setShowCompleted(true);
+    }
+    setSelectedId(id);
+  }
+
+  /** Single-key shortcuts for the selected todo; returns whether the key was used. */
+  function actOnSelection(key) {
+    if (!selected) return false;
+    const id = selected.id;
+    switch (key) {
+      case " ":
+      case "s":
+        if (!selected.completed) toggleRun(id);
+        return true;
+      case "x":
+        if (selected.completed) undoComplete(id);
+        else markComplete(id);
+        return true;
+      case "e":
+      case "Enter":
+        if (!selected.completed) editTodo(id);
+        return true;
+      case "f":
+        if (!selected.completed) toggleFocus(id);
+        return true;
+      case "d":
+      case "Delete":
+      case "Backspace":
+        moveSelection(navOrder[navOrder.length - 1]?.id === id ? -1 : 1);
+        if (selected.completed) archiveTodo(id);
+        else removeTodo(id);
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  useEffect(() => {
+    function onKey(e) {
+      const el = e.target;
+      const typing = el instanceof HTMLElement && (el.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(el.tagName));
+      const mod = e.ctrlKey || e.metaKey;
+      const key = e.key.length === 1 && e.key !== " " ? e.key.toLowerCase() : e.key;
+      if (mod && !e.altKey && key === "k") {
+        e.preventDefault();
+        setShowHelp(false);
+        setPaletteOpen((o) => !o);
+        return;
+      }
+      if (paletteOpen) return; // the palette handles its own keys
+      if (pendingImport || idleTodos.length) return; // dialogs need a decision first
+      if (showHelp) {
+        if (key === "Escape" || e.key === "?") setShowHelp(false);
+        return;
+      }
+      if (typing) {
+        if (key === "Escape" && el instanceof HTMLElement) el.blur();
+        return;
+      }
+      // Text fields keep their own undo.
+      if (mod && !e.altKey) {
+        if (key === "z" && !e.shiftKey) {
+          e.preventDefault();
+          undo();
+        } else if ((key === "z" && e.shiftKey) || key === "y") {
+          e.preventDefault();
+          redo();
+        }
+        return;
+      }
+      if (e.altKey && !mod && (key === "ArrowUp" || key === "ArrowDown")) {
+        e.preventDefault();
+        if (selected && !selected.completed) moveTodo(selected.id, key === "ArrowUp" ? -1 : 1);
+        return;
+      }
+      if (mod || e.altKey) return;
+      // Let a focused button handle its own activation keys.
+      if (el instanceof HTMLButtonElement && (key === " " || key === "Enter")) return;
+      let used = true;
+      if (e.key === "?") setShowHelp(true);
+      else if (key === "/") focusSearch();
+      else if (key === "n") focusNewTask();
+      else if (key === "j" || key === "ArrowDown") moveSelection(1);
+      else if (key === "k" || key === "ArrowUp") moveSelection(-1);
+      else if (key === "Escape") {
+        setSelectedId(null);
+        clearChecked();
+      }
+      else used = view === "tasks" && actOnSelection(key);
+      if (used) e.preventDefault();
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
+  // --- Manual order ------------------------------------------------------
+  // Rows move within the Active list as shown. Pointer events cover mouse
+  // and touch; the drop target is worked out from where the rows were when
+  // the drag started, while the list previews the move.
+  function dropTodo(id, to) {
+    const visible = active;
+    perform("reorder", (prev) => reorder(prev, visible, id, to));
+  }
+
+  function moveTodo(id, delta) {
+    if (!canReorder) {
+      pushToast("Switch to the Manual sort, without grouping, to reorder tasks");
+      return;
+    }
+    const i = active.findIndex((t) => t.id === id);
+    if (i !== -1 && i + delta >= 0) dropTodo(id, i + delta);
+  }
+
+  function startDrag(id, e) {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    const from = active.findIndex((t) => t.id === id);
+    const mids = active
+      .filter((t) => t.id !== id)
+      .map((t) => {
+        const r = document.querySelector(`[data-todo-id="${t.id}"]`)?.getBoundingClientRect();
+        return r ? r.top + r.height / 2 + window.scrollY : 0;
+      });
+    let to = from;
+    setDrag({ id, to });
+    setSelectedId(id);
+
+    function onMove(ev) {
+      const y = ev.clientY + window.scrollY;
+      to = mids.filter((m) => m < y).length;
+      setDrag({ id, to });
+    }
+    function finish(ev) {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", finish);
+      window.removeEventListener("pointercancel", finish);
+      setDrag(null);
+      if (ev.type === "pointerup" && to !== from) dropTodo(id, to);
+    }
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", finish);
+    window.addEventListener("pointercancel", finish);
+  }
+
+  function paletteCommands() {
+    const commands = [
+      { id: "new", label: "New task", hint: "n", run: focusNewTask },
+      { id: "search", label: "Search tasks", hint: "/", run: focusSearch },
+      ...[
+        ["tasks", "Show tasks"],
+        ["reports", "Show reports"],
+        ["calendar", "Show calendar"],
+        ["archive", "Show archive"],
+      ]
+        .filter(([key]) => key !== view)
+        .map(([key, label]) => ({ id: `view-${key}`, label, run: () => setView(key) })),
+      { id: "undo", label: "Undo", hint: "Ctrl+Z", run: undo },
+      { id: "redo", label: "Redo", hint: "Ctrl+Shift+Z", run: redo },
+      {
+        id: "completed",
+        label: showCompleted ? "Hide completed" : "Show completed",
+        run: () => setShowCompleted((v) => !v),
+      },
+      { id: "clear", label: "Archive completed", run: clearCompleted },
+      ...(view === "tasks" && navOrder.length
+        ? [{ id: "select-all", label: "Select all matching", run: checkAllMatching }]
+        : []),
+      ...(checkedTodos.length ? [{ id: "select-none", label: "Clear selection", hint: "Esc", run: clearChecked }] : []),
+      { id: "group", label: groupByDue ? "Stop grouping by due date" : "Group by due date", run: () => setGroupByDue((v) => !v) },
+      ...SORT_OPTIONS.map(([key, label]) => ({ id: `sort-${key}`, label: `Switch sort to ${label}`, run: () => setSort(key) })),
+      { id: "export-json", label: "Export as JSON", run: () => exportTodos("json") },
+      { id: "export-csv", label: "Export as CSV", run: () => exportTodos("csv") },
+      { id: "help", label: "Keyboard shortcuts", hint: "?", run: () => setShowHelp(true) },
+      ...prefs.views.map((v) => ({ id: `saved-${v.id}`, label: `Open view ${v.name}`, run: () => applyView(v) })),
+      ...templates.map((tpl) => ({
+        id: `template-${tpl.id}`,
+        label: `New task from template ${tpl.name}`,
+        run: () => addTodo(instantiateTemplate(tpl, projects)),
+      })),
+    ];
+    for (const t of todos) {
+      if (t.completed) continue;
+      commands.push(
+        { id: `run-${t.id}`, label: `${t.running ? "Stop" : "Start"} timer on ${t.title}`, run: () => toggleRun(t.id) },
+        { id: `complete-${t.id}`, label: `Complete ${t.title}`, run: () => markComplete(t.id) },
+        { id: `template-from-${t.id}`, label: `Save ${t.title} as a template`, run: () => saveTemplate(t.id) },
+        { id: `goto-${t.id}`, label: `Go to ${t.title}`, run: () => goToTodo(t.id) }
+      );
+    }
+    return commands;
+  }
+
+  function renderTodoRow(t) {
+    return (
+      <TodoRow
+        key={t.id}
+        todo={t}
+        now={nowTick}
+        projects={projects}
+        onTagClick={setTagFilter}
+        onToggleRun={() => toggleRun(t.id)}
+        onComplete={() => markComplete(t.id)}
+        onRemove={() => removeTodo(t.id)}
+        onUpdate={(patch) => updateTodo(t.id, patch)}
+        onUpdateSessions={(sessions) => updateSessions(t.id, sessions)}
+        onToggleNoteTask={(line) => toggleNoteTask(t.id, line)}
+        onToggleFocus={() => toggleFocus(t.id)}
+        onSkip={() => skipOccurrence(t.id)}
+        onEndSeries={() => endSeries(t.id)}
+        onSaveTemplate={() => saveTemplate(t.id)}
+        selected={t.id === selectedId}
+        onSelect={() => setSelectedId(t.id)}
+        checked={checked.includes(t.id)}
+        onCheck={(shift) => checkTodo(t.id, shift)}
+        editRequested={editRequest === t.id}
+        onEditHandled={() => setEditRequest(null)}
+        onDragStart={canReorder ? (e) => startDrag(t.id, e) : null}
+        onMove={(delta) => moveTodo(t.id, delta)}
+        dragging={drag?.id === t.id}
+      />
+    );
+  }
+
+  // Saved views: a named query with its sort and completed toggle.
+  const currentView = prefs.views.find(
+    (v) => v.query === query && v.sort === sort && v.showCompleted === showCompleted
+  );
+
+  function saveView(name) {
+    const view = { id: uid(), name: name.trim(), query, sort, showCompleted };
+    setPrefs((p) => ({ ...p, views: [...p.views.filter((v) => v.name !== view.name), view] }));
+  }
+
+  function applyView(v) {
+    setView("tasks");
+    setQuery(v.query);
+    setSort(v.sort);
+    setShowCompleted(v.showCompleted);
+  }
+
+  function removeView(id) {
+    setPrefs((p) => ({ ...p, views: p.views.filter((v) => v.id !== id) }));
+  }
+
+  function switchStorage(name) {
+    if (name === prefs.storage) return;
+    setPrefs((p) => ({ ...p, storage: name }));
+    pushToast(`Tasks are now kept in ${STORAGE_ADAPTERS[name].label}`);
   }
 
   // --- Layout ------------------------------------------------------------
+  if (!ready) {
+    return (
+      <div className="grid min-h-dvh place-items-center bg-gradient-to-br from-indigo-50 via-pink-50 to-yellow-50 text-sm text-slate-500">
+        Loading…
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-dvh bg-gradient-to-br from-indigo-50 via-pink-50 to-yellow-50 text-slate-900">
-      <ToastLayer toasts={toasts} />
+      <ToastLayer toasts={toasts} onDismiss={dismissToast} />
+      {paletteOpen && <CommandPalette commands={paletteCommands()} onClose={() => setPaletteOpen(false)} />}
+      {showHelp && <ShortcutHelp onClose={() => setShowHelp(false)} />}
+      {idleTodos.length > 0 && <IdleDialog prompt={idlePrompt} todos={idleTodos} onResolve={resolveIdlePrompt} />}
+      {pendingImport && (
+        <ImportDialog
+          local={todos}
+          pending={pendingImport}
+          onApply={finishImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
 
       {/* Top bar */}
       <header className="sticky top-0 z-40 border-b bg-gradient-to-r from-indigo-500 to-pink-500 text-white backdrop-blur">
@@ -307,22 +1405,103 @@ export default function DoTodoApp() {
             </div>
           </div>
           <div className="flex items-center gap-2">
-            <select
-              value={sort}
-              onChange={(e) => setSort(e.target.value)}
-              className="rounded-xl border bg-white text-slate-700 px-2 py-1 text-sm"
+            <div className="flex overflow-hidden rounded-xl border border-white/60 text-sm">
+              {[
+                ["tasks", "Tasks"],
+                ["reports", "Reports"],
+                ["calendar", "Calendar"],
+                ["archive", "Archive"],
+              ].map(([key, label]) => (
+                <button
+                  key={key}
+                  onClick={() => setView(key)}
+                  className={`px-2 py-1 ${view === key ? "bg-white text-indigo-600" : "hover:bg-white/10"}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <button
+              title="Commands (Ctrl+K)"
+              onClick={() => setPaletteOpen(true)}
+              className="rounded-xl border border-white/60 px-2 py-1 text-sm hover:bg-white/10"
             >
-              <option value="created-desc">Newest</option>
-              <option value="created-asc">Oldest</option>
-              <option value="alpha">A–Z</option>
-              <option value="time-desc">Most Time</option>
-            </select>
-            <div className="relative">
+              ⌘K
+            </button>
+            <button
+              title="Keyboard shortcuts (?)"
+              onClick={() => setShowHelp(true)}
+              className="rounded-xl border border-white/60 px-2 py-1 text-sm hover:bg-white/10"
+            >
+              ?
+            </button>
+            <button
+              title="Undo (Ctrl+Z)"
+              onClick={undo}
+              disabled={!historyRef.current.past.length}
+              className="rounded-xl border border-white/60 px-2 py-1 text-sm hover:bg-white/10 disabled:opacity-40"
+            >
+              ↶
+            </button>
+            <button
+              title="Redo (Ctrl+Shift+Z)"
+              onClick={redo}
+              disabled={!historyRef.current.future.length}
+              className="rounded-xl border border-white/60 px-2 py-1 text-sm hover:bg-white/10 disabled:opacity-40"
+            >
+              ↷
+            </button>
+            <select
+              value={projectFilter}
+              onChange={(e) => setProjectFilter(e.target.value)}
+              className="max-w-40 rounded-xl border bg-white text-slate-700 px-2 py-1 text-sm"
+              aria-label="Project"
+            >
+              <option value="all">All projects</option>
+              <option value="inbox">Inbox</option>
+              {projects.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+            {allTags.length > 0 && (
+              <select
+                value={tagFilter}
+                onChange={(e) => setTagFilter(e.target.value)}
+                className="max-w-32 rounded-xl border bg-white text-slate-700 px-2 py-1 text-sm"
+                aria-label="Tag"
+              >
+                <option value="">All tags</option>
+                {allTags.map((tag) => (
+                  <option key={tag} value={tag}>#{tag}</option>
+                ))}
+                {tagFilter && !allTags.includes(tagFilter) && (
+                  <option value={tagFilter}>#{tagFilter}</option>
+                )}
+              </select>
+            )}
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value)}
+              className="rounded-xl border bg-white text-slate-700 px-2 py-1 text-sm"
+            >
+              {SORT_OPTIONS.map(([key, label]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+            <div className="relative">
               <input
+                ref={searchRef}
                 value={query}
                 onChange={(e) => setQuery(e.target.value)}
-                placeholder="Search…"
-                className="w-36 rounded-xl border bg-white text-slate-800 placeholder-slate-400 px-3 py-1.5 text-sm focus:outline-none sm:w-56"
+                placeholder="Search… (is:running time:>1h)"
+                title={
+                  parsedQuery.errors.length
+                    ? `Ignored: ${parsedQuery.errors.join(" ")}`
+                    : "Filters: is:running|done|open|overdue, warn:>30, time:>1h, est:<2h, created:<2026-10-01, due:, done:, notes:, title:, tag:, project:, p:high. Use -term to exclude and \"quotes\" for phrases."
+                }
+                className={`w-36 rounded-xl border bg-white text-slate-800 placeholder-slate-400 px-3 py-1.5 pr-6 text-sm focus:outline-none sm:w-56 ${
+                  parsedQuery.errors.length ? "ring-2 ring-amber-300" : ""
+                }`}
               />
               {query && (
                 <button
@@ -334,82 +1513,197 @@ export default function DoTodoApp() {
                 </button>
               )}
             </div>
+            <SaveViewButton disabled={!query.trim() || Boolean(currentView)} onSave={saveView} />
           </div>
         </div>
+        {prefs.views.length > 0 && (
+          <nav aria-label="Saved views" className="mx-auto flex max-w-6xl flex-wrap gap-2 px-4 pb-3">
+            {prefs.views.map((v) => (
+              <span
+                key={v.id}
+                className={`inline-flex items-center overflow-hidden rounded-full border border-white/60 text-xs ${
+                  currentView?.id === v.id ? "bg-white text-indigo-600" : ""
+                }`}
+              >
+                <button title={v.query} onClick={() => applyView(v)} className="px-3 py-1 hover:bg-white/10">
+                  📌 {v.name}
+                </button>
+                <button
+                  title={`Remove view ${v.name}`}
+                  aria-label={`Remove view ${v.name}`}
+                  onClick={() => removeView(v.id)}
+                  className="px-2 py-1 opacity-70 hover:bg-white/10 hover:opacity-100"
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </nav>
+        )}
       </header>
 
       {/* Content grid */}
       <main className="mx-auto grid max-w-6xl grid-cols-1 gap-6 px-4 py-6 lg:grid-cols-12">
-        <section className="lg:col-span-8 xl:col-span-9">
-          <CreateTodoCard onCreate={addTodo} />
-
-          <section className="mt-6">
-            <div className="mb-3 flex items-center justify-between">
-              <h2 className="text-lg font-semibold text-indigo-700">Active</h2>
-              <div className="flex items-center gap-2 text-sm">
-                <Badge color="bg-green-100 text-green-700 border-green-300">
-                  {active.length} {active.length === 1 ? "task" : "tasks"}
-                </Badge>
-              </div>
-            </div>
-            {active.length === 0 ? (
-              <EmptyState />
-            ) : (
-              <div className="flex flex-col gap-3">
-                {active.map((t) => (
-                  <TodoRow
-                    key={t.id}
-                    todo={t}
-                    now={nowTick}
-                    onToggleRun={() => toggleRun(t.id)}
-                    onComplete={() => markComplete(t.id)}
-                    onRemove={() => removeTodo(t.id)}
-                    onUpdate={(patch) => updateTodo(t.id, patch)}
-                  />
-                ))}
-              </div>
-            )}
+        {view === "reports" ? (
+          <section className="lg:col-span-8 xl:col-span-9">
+            <ReportsView todos={todos} projects={projects} now={nowTick} />
           </section>
+        ) : view === "calendar" ? (
+          <section className="lg:col-span-8 xl:col-span-9">
+            <CalendarView todos={todos} projects={projects} now={nowTick} />
+          </section>
+        ) : view === "archive" ? (
+          <section className="lg:col-span-8 xl:col-span-9">
+            <ArchiveView
+              todos={todos}
+              projects={projects}
+              now={nowTick}
+              onRestore={restoreTodos}
+              onPurge={purgeTodos}
+            />
+          </section>
+        ) : (
+          // Room below the lists so the batch bar doesn't cover the last row
+          <section className={`lg:col-span-8 xl:col-span-9 ${checkedTodos.length ? "pb-40" : ""}`}>
+            <CreateTodoCard
+              inputRef={newTitleRef}
+              onCreate={addTodo}
+              projects={projects}
+              templates={templates}
+              defaultProjectId={projectFilter === "all" || projectFilter === "inbox" ? null : projectFilter}
+            />
 
-          <section className="mt-8">
-            <div className="mb-3 flex items-center justify-between">
-              <h2 className="text-lg font-semibold text-pink-700">Completed</h2>
-              <div className="flex items-center gap-2">
-                <IconButton
-                  title={showCompleted ? "Hide completed" : "Show completed"}
-                  onClick={() => setShowCompleted((v) => !v)}
-                >
-                  {showCompleted ? "Hide" : "Show"}
-                </IconButton>
-                {completed.length > 0 && (
-                  <TextButton onClick={clearCompleted}>Clear all</TextButton>
-                )}
-              </div>
-            </div>
-            {showCompleted && (
-              <div className="flex flex-col gap-2">
-                {completed.length === 0 ? (
-                  <div className="rounded-2xl border bg-white p-4 text-sm text-slate-500">
-                    No completed tasks yet.
-                  </div>
-                ) : (
-                  completed.map((t) => (
-                    <CompletedRow
-                      key={t.id}
-                      todo={t}
-                      onUndo={() => undoComplete(t.id)}
-                      onRemove={() => removeTodo(t.id)}
+            <section className="mt-6">
+              <div className="mb-3 flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-indigo-700">Active</h2>
+                <div className="flex items-center gap-2 text-sm">
+                  <label className="flex items-center gap-1 text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={groupByDue}
+                      onChange={(e) => setGroupByDue(e.target.checked)}
                     />
-                  ))
-                )}
+                    Group by due
+                  </label>
+                  {navOrder.length > 0 && (
+                    <TextButton onClick={checkedTodos.length === navOrder.length ? clearChecked : checkAllMatching}>
+                      {checkedTodos.length === navOrder.length ? "Select none" : "Select all"}
+                    </TextButton>
+                  )}
+                  <Badge color="bg-green-100 text-green-700 border-green-300">
+                    {active.length} {active.length === 1 ? "task" : "tasks"}
+                  </Badge>
+                </div>
+              </div>
+              {active.length === 0 ? (
+                <EmptyState />
+              ) : activeGroups ? (
+                <div className="flex flex-col gap-5">
+                  {activeGroups.map((g) => (
+                    <div key={g.key}>
+                      <h3
+                        className={`mb-2 text-sm font-medium ${
+                          g.key === "overdue" ? "text-red-600" : "text-slate-600"
+                        }`}
+                      >
+                        {g.label} <span className="text-slate-400">({g.todos.length})</span>
+                      </h3>
+                      <div className="flex flex-col gap-3">{g.todos.map(renderTodoRow)}</div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="flex flex-col gap-3">{shownActive.map(renderTodoRow)}</div>
+              )}
+            </section>
+
+            <section className="mt-8">
+              <div className="mb-3 flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-pink-700">Completed</h2>
+                <div className="flex items-center gap-2">
+                  <IconButton
+                    title={showCompleted ? "Hide completed" : "Show completed"}
+                    onClick={() => setShowCompleted((v) => !v)}
+                  >
+                    {showCompleted ? "Hide" : "Show"}
+                  </IconButton>
+                  {completed.length > 0 && (
+                    <TextButton onClick={clearCompleted}>Clear all</TextButton>
+                  )}
+                </div>
               </div>
+              {showCompleted && (
+                <div className="flex flex-col gap-2">
+                  {completed.length === 0 ? (
+                    <div className="rounded-2xl border bg-white p-4 text-sm text-slate-500">
+                      No completed tasks yet.
+                    </div>
+                  ) : (
+                    completed.map((t) => (
+                      <CompletedRow
+                        key={t.id}
+                        todo={t}
+                        projects={projects}
+                        onTagClick={setTagFilter}
+                        onUndo={() => undoComplete(t.id)}
+                        onArchive={() => archiveTodo(t.id)}
+                        onSaveTemplate={() => saveTemplate(t.id)}
+                        onToggleNoteTask={(line) => toggleNoteTask(t.id, line)}
+                        selected={t.id === selectedId}
+                        onSelect={() => setSelectedId(t.id)}
+                        checked={checked.includes(t.id)}
+                        onCheck={(shift) => checkTodo(t.id, shift)}
+                      />
+                    ))
+                  )}
+                </div>
+              )}
+            </section>
+
+            {checkedTodos.length > 0 && (
+              <BatchBar
+                todos={checkedTodos}
+                matching={navOrder.length}
+                onSelectAll={checkAllMatching}
+                onClear={clearChecked}
+                onComplete={completeChecked}
+                onReopen={reopenChecked}
+                onStop={stopChecked}
+                onWarn={warnChecked}
+                onExport={(format) => exportTodos(format, checkedTodos, "-selection")}
+                onDelete={deleteChecked}
+              />
             )}
           </section>
-        </section>
+        )}
 
         {/* Right column: stats + ads */}
         <aside className="lg:col-span-4 xl:col-span-3">
-          <StatsCard todos={todos} now={nowTick} />
+          <StatsCard todos={todos} projects={projects} now={nowTick} />
+          <ProjectsCard
+            projects={projects}
+            todos={todos}
+            onAdd={addProject}
+            onRename={renameProject}
+            onRemove={removeProject}
+          />
+          <TemplatesCard
+            templates={templates}
+            projects={projects}
+            onUpdate={updateTemplate}
+            onRemove={removeTemplate}
+          />
+          <FocusCard settings={prefs.focus} onChange={(focus) => setPrefs((p) => ({ ...p, focus }))} />
+          <IdleCard minutes={prefs.idleMinutes} onChange={(idleMinutes) => setPrefs((p) => ({ ...p, idleMinutes }))} />
+          <DataCard onExport={exportTodos} onImport={readImportFile} />
+          <SyncCard
+            storage={prefs.storage}
+            settings={prefs.sync}
+            status={syncStatus}
+            onStorage={switchStorage}
+            onChange={(sync) => setPrefs((p) => ({ ...p, sync }))}
+            onSyncNow={() => syncRef.current?.syncNow()}
+          />
         </aside>
       </main>
     </div>
@@ -428,20 +1722,131 @@ function EmptyState() {
   );
 }
 
+// --- Saved views ---------------------------------------------------------
+function SaveViewButton({ disabled, onSave }) {
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState("");
+
+  if (naming) {
+    return (
+      <form
+        className="flex items-center gap-1"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (name.trim()) onSave(name);
+          setNaming(false);
+          setName("");
+        }}
+      >
+        <input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Escape" && setNaming(false)}
+          onBlur={() => !name.trim() && setNaming(false)}
+          placeholder="View name"
+          className="w-28 rounded-xl border bg-white px-2 py-1 text-sm text-slate-800"
+        />
+        <button type="submit" className="rounded-xl border border-white/60 px-2 py-1 text-sm hover:bg-white/10">
+          Save
+        </button>
+      </form>
+    );
+  }
+  return (
+    <button
+      title="Save this search as a view"
+      onClick={() => setNaming(true)}
+      disabled={disabled}
+      className="rounded-xl border border-white/60 px-2 py-1 text-sm hover:bg-white/10 disabled:opacity-40"
+    >
+      ☆
+    </button>
+  );
+}
+
 // --- Create Card ---------------------------------------------------------
-function CreateTodoCard({ onCreate }) {
+function CreateTodoCard({ onCreate, projects, templates, defaultProjectId, inputRef = null }) {
+  const [template, setTemplate] = useState(null); // the template in use, filled; keeps what the form can't show
   const [title, setTitle] = useState("");
   const [notes, setNotes] = useState("");
   const [warningMinutes, setWarningMinutes] = useState("");
-  const titleRef = useRef(null);
+  const [projectId, setProjectId] = useState(defaultProjectId ?? "");
+  const [tags, setTags] = useState("");
+  const [due, setDue] = useState("");
+  const [priority, setPriority] = useState("");
+  const [recurrence, setRecurrence] = useState(null);
+  const [estimate, setEstimate] = useState("");
+  const ownRef = useRef(null);
+  const titleRef = inputRef ?? ownRef;
+
+  // New tasks land in whichever project is being viewed
+  useEffect(() => {
+    setProjectId(defaultProjectId ?? "");
+  }, [defaultProjectId]);
+
+  // Inline syntax in the title wins over the separate fields.
+  const parsed = parseQuickAdd(title);
+  const hasInline =
+    parsed.tags.length > 0 ||
+    parsed.priority ||
+    parsed.due != null ||
+    parsed.alerts.length > 0 ||
+    parsed.estimateMinutes;
+
+  const templateExtras = template
+    ? [
+        template.subtasks.length > 0 && `${template.subtasks.length} subtasks`,
+        template.alerts.length > 1 && `${template.alerts.length} alert thresholds`,
+      ].filter(Boolean)
+    : [];
+
+  // The form shows one warning; a template's other thresholds and its
+  // subtasks are added on submit. Title and notes keep their placeholders
+  // until then, so {time} is the time the task was added.
+  function applyTemplate(id) {
+    const tpl = templates.find((t) => t.id === id);
+    if (!tpl) return;
+    const filled = instantiateTemplate(tpl, projects);
+    setTemplate({ ...filled, name: tpl.name });
+    setTitle(tpl.title);
+    setNotes(tpl.notes);
+    setWarningMinutes(String(filled.alerts.find((a) => a.action === "notify")?.minutes ?? ""));
+    setProjectId(filled.projectId ?? "");
+    setTags(formatTags(filled.tags));
+    setPriority(filled.priority ?? "");
+    setEstimate(filled.estimateMinutes ? formatDuration(filled.estimateMinutes) : "");
+    titleRef.current?.focus();
+  }
 
   function submit(e) {
     e.preventDefault();
-    if (!title.trim()) return;
-    onCreate({ title, notes, warningMinutes: warningMinutes || null });
+    if (!parsed.title.trim()) return;
+    const shown = template?.alerts.find((a) => a.action === "notify");
+    const extraAlerts = template ? template.alerts.filter((a) => a !== shown) : [];
+    const warning = warningMinutes > 0 ? [makeThreshold(Number(warningMinutes))] : [];
+    const now = Date.now();
+    onCreate({
+      title: template ? fillPlaceholders(parsed.title, now) : parsed.title,
+      notes: template ? fillPlaceholders(notes, now) : notes,
+      alerts: parsed.alerts.length ? parsed.alerts : sortThresholds([...warning, ...extraAlerts]),
+      projectId: projectId || null,
+      tags: Array.from(new Set([...parseTags(tags), ...parsed.tags])),
+      due: parsed.due ?? fromLocalInput(due),
+      priority: parsed.priority ?? (priority || null),
+      recurrence,
+      estimateMinutes: parsed.estimateMinutes ?? parseDuration(estimate),
+      subtasks: template ? template.subtasks : [],
+    });
+    setTemplate(null);
     setTitle("");
     setNotes("");
     setWarningMinutes("");
+    setTags("");
+    setDue("");
+    setPriority("");
+    setRecurrence(null);
+    setEstimate("");
     titleRef.current?.focus();
   }
 
@@ -451,16 +1856,29 @@ function CreateTodoCard({ onCreate }) {
         <input
           ref={titleRef}
           value={title}
-          onChange={(e) => setTitle(e.target.value)}
-          placeholder="Add a task…"
+          onChange={(e) => {
+            setTitle(e.target.value);
+            // Clearing the title starts over; the template goes with it.
+            if (!e.target.value.trim()) setTemplate(null);
+          }}
+          placeholder="Add a task… (#tag !high due:fri warn:45m stop:1h ~2h)"
           className="md:col-span-5 rounded-xl border bg-white px-3 py-2"
         />
-        <input
-          value={notes}
-          onChange={(e) => setNotes(e.target.value)}
-          placeholder="Notes (optional)"
-          className="md:col-span-4 rounded-xl border bg-white px-3 py-2"
-        />
+        {notes.includes("\n") ? (
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+            className="md:col-span-4 rounded-xl border bg-white px-3 py-2"
+          />
+        ) : (
+          <input
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Notes (optional)"
+            className="md:col-span-4 rounded-xl border bg-white px-3 py-2"
+          />
+        )}
         <div className="md:col-span-2 flex items-center gap-2">
           <input
             type="number"
@@ -478,73 +1896,290 @@ function CreateTodoCard({ onCreate }) {
         >
           Add
         </button>
+        <ProjectSelect
+          projects={projects}
+          value={projectId}
+          onChange={setProjectId}
+          className="md:col-span-3 rounded-xl border bg-white px-3 py-2"
+        />
+        <PrioritySelect
+          value={priority}
+          onChange={setPriority}
+          className="md:col-span-2 rounded-xl border bg-white px-3 py-2"
+        />
+        <input
+          type="datetime-local"
+          value={due}
+          onChange={(e) => setDue(e.target.value)}
+          title="Due (optional)"
+          aria-label="Due"
+          className="md:col-span-3 rounded-xl border bg-white px-3 py-2"
+        />
+        <input
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="Tags, comma separated (optional)"
+          className="md:col-span-2 rounded-xl border bg-white px-3 py-2"
+        />
+        <input
+          value={estimate}
+          onChange={(e) => setEstimate(e.target.value)}
+          placeholder="Estimate (e.g. 1h30m)"
+          title="Estimate: 45m, 1h30m, 1.5h or minutes"
+          className={`md:col-span-2 rounded-xl border bg-white px-3 py-2 ${
+            estimate.trim() && parseDuration(estimate) == null ? "border-red-400" : ""
+          }`}
+        />
+        <RecurrencePicker
+          value={recurrence}
+          onChange={setRecurrence}
+          anchor={fromLocalInput(due) ?? Date.now()}
+          className={templates.length ? "md:col-span-9" : "md:col-span-12"}
+        />
+        {templates.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => applyTemplate(e.target.value)}
+            aria-label="From template"
+            className="md:col-span-3 rounded-xl border bg-white px-3 py-2"
+          >
+            <option value="">From template…</option>
+            {templates.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+        )}
       </form>
+      {template && (
+        <p className="mt-2 text-xs text-slate-500">
+          From template “{template.name}”{templateExtras.length ? ` (adds ${templateExtras.join(" and ")})` : ""}.
+          Placeholders are filled in when the task is added.{" "}
+          <TextButton onClick={() => setTemplate(null)}>Detach</TextButton>
+        </p>
+      )}
+      {hasInline && <QuickAddPreview parsed={parsed} />}
+    </div>
+  );
+}
+
+function QuickAddPreview({ parsed }) {
+  const now = Date.now();
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-1 rounded-xl border border-dashed bg-slate-50 px-3 py-2 text-sm">
+      <span className="mr-1 font-medium">{parsed.title || <span className="text-slate-400">(no title)</span>}</span>
+      {parsed.tags.map((tag) => (
+        <Badge key={tag} color="bg-pink-50 text-pink-700 border-pink-300">#{tag}</Badge>
+      ))}
+      {parsed.priority && <Badge color={PRIORITY_COLORS[parsed.priority]}>{parsed.priority}</Badge>}
+      {parsed.due != null && (
+        <Badge color="bg-slate-100 text-slate-700 border-slate-300">Due {formatDue(parsed.due, now)}</Badge>
+      )}
+      {/* The parsed thresholds get new ids on every keystroke. */}
+      {parsed.alerts.map((a, i) => (
+        <Badge key={`${a.action}-${a.minutes}-${i}`}>
+          {ALERT_ICONS[a.action]} {formatDuration(a.minutes)}
+        </Badge>
+      ))}
+      {parsed.estimateMinutes && (
+        <Badge color="bg-teal-100 text-teal-700 border-teal-300">Est {formatDuration(parsed.estimateMinutes)}</Badge>
+      )}
     </div>
   );
 }
 
 // --- Todo Row ------------------------------------------------------------
-function TodoRow({ todo, now, onToggleRun, onComplete, onRemove, onUpdate }) {
+/** Edit-form values for a todo. */
+function editDraft(todo) {
+  return {
+    title: todo.title,
+    notes: todo.notes || "",
+    alerts: todo.alerts || [],
+    projectId: todo.projectId ?? "",
+    tags: formatTags(todo.tags),
+    due: todo.due ? toLocalInput(todo.due).slice(0, 16) : "",
+    priority: todo.priority ?? "",
+    recurrence: todo.recurrence,
+    estimate: todo.estimateMinutes ? formatDuration(todo.estimateMinutes) : "",
+  };
+}
+
+/** The patch Save applies; `elapsed` is the todo's tracked time so far. */
+function editPatch(todo, draft, elapsed) {
+  const alerts = sortThresholds(draft.alerts.filter((a) => a.minutes > 0));
+  // Thresholds added mid-run that are already behind us don't fire.
+  const added = alerts.filter((a) => !(todo.alerts || []).some((old) => old.id === a.id));
+  return {
+    title: draft.title.trim() || todo.title,
+    notes: draft.notes,
+    alerts,
+    firedAlerts: [
+      ...(todo.firedAlerts || []).filter((id) => alerts.some((a) => a.id === id)),
+      ...(todo.running ? passedThresholds(added, elapsed) : []),
+    ],
+    estimateMinutes: parseDuration(draft.estimate),
+    projectId: draft.projectId || null,
+    tags: parseTags(draft.tags),
+    due: fromLocalInput(draft.due),
+    priority: draft.priority || null,
+    recurrence: draft.recurrence,
+    seriesId: draft.recurrence ? todo.seriesId ?? todo.id : todo.seriesId,
+  };
+}
+
+function TodoRow({
+  todo,
+  now,
+  projects,
+  onTagClick,
+  onToggleRun,
+  onComplete,
+  onRemove,
+  onUpdate,
+  onUpdateSessions,
+  onToggleNoteTask,
+  onToggleFocus,
+  onSkip,
+  onEndSeries,
+  onSaveTemplate,
+  selected = false,
+  onSelect,
+  checked = false,
+  onCheck,
+  editRequested = false,
+  onEditHandled,
+  onDragStart = null,
+  onMove,
+  dragging = false,
+}) {
   const [editing, setEditing] = useState(false);
-  const [tempTitle, setTempTitle] = useState(todo.title);
-  const [tempNotes, setTempNotes] = useState(todo.notes || "");
-  const [tempWarn, setTempWarn] = useState(todo.warningMinutes ?? "");
+  const [showSessions, setShowSessions] = useState(false);
+  const [confirmComplete, setConfirmComplete] = useState(false);
+  const [draft, setDraft] = useState(() => editDraft(todo));
+  const setField = (key) => (value) => setDraft((d) => ({ ...d, [key]: value }));
+
+  // The form starts from the todo as it is now: notes ticked in place, undo,
+  // other tabs and batch edits may all have changed it since the last edit.
+  function startEditing() {
+    setDraft(editDraft(todo));
+    setEditing(true);
+  }
 
+  // The "e" shortcut asks the row to open its editor. The request is cleared
+  // once handled, so the row doesn't reopen its editor when it remounts.
   useEffect(() => {
-    setTempTitle(todo.title);
-    setTempNotes(todo.notes || "");
-    setTempWarn(todo.warningMinutes ?? "");
-  }, [todo.id]);
+    if (!editRequested) return;
+    startEditing();
+    onEditHandled();
+  }, [editRequested]);
 
   const elapsed = todo.elapsedMs + (todo.running && todo.startedAt ? now - todo.startedAt : 0);
+  const subtasks = todo.subtasks || [];
+  const progress = subtaskProgress(subtasks);
+  const childMs = subtasksElapsed(subtasks, now);
+
+  // Completing a parent ticks off its open items too, so ask first.
+  function complete() {
+    if (openSubtasks(subtasks).length) setConfirmComplete(true);
+    else onComplete();
+  }
 
   function saveEdits() {
-    const patch = {
-      title: tempTitle.trim() || todo.title,
-      notes: tempNotes,
-      warningMinutes: tempWarn === "" ? null : Number(tempWarn),
-    };
-    onUpdate(patch);
+    onUpdate(editPatch(todo, draft, elapsed));
     setEditing(false);
   }
 
-  const warnMs = (todo.warningMinutes ?? 0) * 60 * 1000;
-  const warnActive = todo.warningMinutes && elapsed >= warnMs;
+  const warnActive = (todo.alerts || []).some((a) => elapsed >= a.minutes * 60_000);
+  // What fires next: in this run, or in the next one when stopped.
+  const upcoming = nextThreshold(todo.running ? todo : { ...todo, firedAlerts: [] }, elapsed);
+  const overdue = todo.due != null && todo.due < now;
 
   return (
     <div
-      className={`grid grid-cols-1 gap-3 rounded-2xl border bg-white p-3 shadow-sm md:grid-cols-12 ${
-        warnActive ? "ring-2 ring-amber-400" : ""
+      data-todo-id={todo.id}
+      onClick={onSelect}
+      className={`grid grid-cols-1 gap-3 rounded-2xl border p-3 shadow-sm md:grid-cols-12 ${
+        checked ? "bg-indigo-50" : "bg-white"
+      } ${
+        overdue ? "ring-2 ring-red-400" : warnActive ? "ring-2 ring-amber-400" : ""
+      } ${selected ? "outline outline-2 outline-offset-2 outline-indigo-500" : ""} ${
+        dragging ? "opacity-70 shadow-lg" : ""
       }`}
     >
       <div className="md:col-span-6">
         {editing ? (
           <div className="flex flex-col gap-2">
             <input
-              value={tempTitle}
-              onChange={(e) => setTempTitle(e.target.value)}
+              autoFocus
+              value={draft.title}
+              onChange={(e) => setField("title")(e.target.value)}
               className="w-full rounded-xl border px-3 py-2"
             />
-            <textarea
-              value={tempNotes}
-              onChange={(e) => setTempNotes(e.target.value)}
-              className="w-full rounded-xl border px-3 py-2"
-              placeholder="Notes…"
-              rows={2}
-            />
+            <NotesEditor value={draft.notes} onChange={setField("notes")} />
           </div>
         ) : (
           <div>
             <div className="flex items-center gap-2">
+              {onDragStart && (
+                <button
+                  title="Drag to reorder (or focus and press ↑/↓)"
+                  aria-label="Reorder"
+                  onPointerDown={onDragStart}
+                  onKeyDown={(e) => {
+                    if (e.key !== "ArrowUp" && e.key !== "ArrowDown") return;
+                    e.preventDefault();
+                    e.stopPropagation();
+                    onMove(e.key === "ArrowUp" ? -1 : 1);
+                  }}
+                  className="cursor-grab touch-none select-none px-1 text-slate-400 hover:text-slate-600 active:cursor-grabbing"
+                >
+                  ⋮⋮
+                </button>
+              )}
+              <RowCheckbox title={todo.title} checked={checked} onCheck={onCheck} />
               <h3 className="text-base font-medium">{todo.title}</h3>
-              {todo.warningMinutes ? (
-                <Badge>Warn {todo.warningMinutes}m</Badge>
+              {upcoming && (
+                <span title={(todo.alerts || []).map((a) => `${formatDuration(a.minutes)}: ${ALERT_ACTIONS[a.action]}`).join("\n")}>
+                  <Badge>
+                    {ALERT_ICONS[upcoming.action]} {formatDuration(upcoming.minutes)}
+                  </Badge>
+                </span>
+              )}
+              {todo.estimateMinutes ? (
+                <Badge color="bg-teal-100 text-teal-700 border-teal-300">Est {formatDuration(todo.estimateMinutes)}</Badge>
               ) : null}
               {todo.running && <Badge color="bg-sky-100 text-sky-700 border-sky-300">Running</Badge>}
+              {todo.priority && <Badge color={PRIORITY_COLORS[todo.priority]}>{todo.priority}</Badge>}
+              {todo.pomodoros > 0 && (
+                <Badge color="bg-rose-100 text-rose-700 border-rose-300">🍅 {todo.pomodoros}</Badge>
+              )}
+              {progress.total > 0 && (
+                <Badge color="bg-emerald-50 text-emerald-700 border-emerald-300">
+                  {progress.done}/{progress.total}
+                </Badge>
+              )}
+              {todo.due != null && (
+                <Badge color={overdue ? "bg-red-100 text-red-700 border-red-300" : "bg-slate-100 text-slate-700 border-slate-300"}>
+                  {overdue ? "Overdue · " : "Due "}
+                  {formatDue(todo.due, now)}
+                </Badge>
+              )}
             </div>
-            {todo.notes && (
-              <p className="mt-1 text-sm text-slate-600 whitespace-pre-wrap">{todo.notes}</p>
+            <TodoLabels todo={todo} projects={projects} onTagClick={onTagClick} />
+            {todo.recurrence && (
+              <div className="mt-1 flex flex-wrap items-center gap-3 text-sm text-slate-600">
+                <span>↻ {describeRule(todo.recurrence)}</span>
+                <TextButton onClick={onSkip}>Skip this one</TextButton>
+                <TextButton onClick={onEndSeries}>End series</TextButton>
+              </div>
             )}
+            {todo.notes && <Markdown text={todo.notes} onToggleTask={onToggleNoteTask} className="mt-1" />}
+            <div className="mt-1">
+              <TextButton onClick={() => setShowSessions((v) => !v)}>
+                {showSessions ? "Hide sessions" : `Sessions (${(todo.sessions || []).length})`}
+              </TextButton>
+            </div>
           </div>
         )}
       </div>
@@ -552,9 +2187,28 @@ function TodoRow({ todo, now, onToggleRun, onComplete, onRemove, onUpdate }) {
       <div className="md:col-span-3 flex items-center gap-3">
         <div className="rounded-xl border bg-slate-50 px-3 py-2 font-mono text-sm">
           {msToHMS(elapsed)}
+          {childMs > 0 && (
+            <div className="text-xs text-slate-500" title="Including subtasks">
+              Σ {msToHMS(elapsed + childMs)}
+            </div>
+          )}
         </div>
-        <IconButton title={todo.running ? "Stop" : "Start"} onClick={onToggleRun}>
-          {todo.running ? "Stop" : "Start"}
+        {todo.focus ? (
+          <div
+            className={`rounded-xl border px-3 py-2 text-sm ${
+              todo.focus.phase === "work" ? "bg-rose-50 text-rose-700" : "bg-emerald-50 text-emerald-700"
+            }`}
+          >
+            <div className="text-xs">{PHASE_LABELS[todo.focus.phase]}</div>
+            <div className="font-mono">{msToClock(focusRemaining(todo, now))}</div>
+          </div>
+        ) : (
+          <IconButton title={todo.running ? "Stop" : "Start"} onClick={onToggleRun}>
+            {todo.running ? "Stop" : "Start"}
+          </IconButton>
+        )}
+        <IconButton title={todo.focus ? "Leave focus mode" : "Start a pomodoro"} onClick={onToggleFocus}>
+          {todo.focus ? "End focus" : "Focus"}
         </IconButton>
       </div>
 
@@ -570,123 +2224,2630 @@ function TodoRow({ todo, now, onToggleRun, onComplete, onRemove, onUpdate }) {
           </>
         ) : (
           <>
-            <IconButton title="Edit" onClick={() => setEditing(true)}>
+            <IconButton title="Edit" onClick={startEditing}>
               Edit
             </IconButton>
-            <IconButton title="Complete" onClick={onComplete}>
+            <IconButton title="Complete" onClick={complete}>
               Complete
             </IconButton>
             <IconButton title="Delete" onClick={onRemove}>
               Delete
             </IconButton>
+            <IconButton title="Save as template" onClick={onSaveTemplate}>
+              ⧉
+            </IconButton>
           </>
         )}
       </div>
 
+      {!editing && todo.estimateMinutes ? (
+        <div className="md:col-span-12">
+          <EstimateBar todo={todo} actualMs={elapsed + childMs} />
+        </div>
+      ) : null}
+
       {editing && (
         <div className="md:col-span-12">
-          <div className="flex items-center gap-2">
-            <label className="text-sm text-slate-600">Warn at (min)</label>
+          <ThresholdEditor value={draft.alerts} onChange={setField("alerts")} />
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            <label className="text-sm text-slate-600">Estimate</label>
             <input
-              type="number"
-              min={1}
-              step={1}
-              value={tempWarn}
-              onChange={(e) => setTempWarn(e.target.value)}
-              className="w-28 rounded-xl border px-3 py-1.5"
+              value={draft.estimate}
+              onChange={(e) => setField("estimate")(e.target.value)}
+              placeholder="e.g. 1h30m"
+              className={`w-28 rounded-xl border px-3 py-1.5 ${
+                draft.estimate.trim() && parseDuration(draft.estimate) == null ? "border-red-400" : ""
+              }`}
+            />
+          </div>
+          <div className="mt-2 grid grid-cols-1 gap-2 md:grid-cols-12">
+            <ProjectSelect
+              projects={projects}
+              value={draft.projectId}
+              onChange={setField("projectId")}
+              className="md:col-span-3 rounded-xl border px-3 py-1.5"
+            />
+            <PrioritySelect
+              value={draft.priority}
+              onChange={setField("priority")}
+              className="md:col-span-2 rounded-xl border px-3 py-1.5"
+            />
+            <input
+              type="datetime-local"
+              value={draft.due}
+              onChange={(e) => setField("due")(e.target.value)}
+              title="Due"
+              aria-label="Due"
+              className="md:col-span-3 rounded-xl border px-3 py-1.5"
+            />
+            <input
+              value={draft.tags}
+              onChange={(e) => setField("tags")(e.target.value)}
+              placeholder="Tags, comma separated"
+              className="md:col-span-4 rounded-xl border px-3 py-1.5"
+            />
+            <RecurrencePicker
+              value={draft.recurrence}
+              onChange={setField("recurrence")}
+              anchor={fromLocalInput(draft.due) ?? todo.createdAt}
+              className="md:col-span-12"
             />
-            <TextButton onClick={() => setTempWarn("")}>Clear</TextButton>
           </div>
         </div>
       )}
+
+      {confirmComplete && (
+        <div className="md:col-span-12 flex flex-wrap items-center gap-3 rounded-xl border border-amber-300 bg-amber-50 p-2 text-sm">
+          <span>
+            {openSubtasks(subtasks).length} of {progress.total} subtasks are still open. Complete them too?
+          </span>
+          <IconButton
+            title="Complete all"
+            onClick={() => {
+              setConfirmComplete(false);
+              onComplete();
+            }}
+          >
+            Complete all
+          </IconButton>
+          <TextButton onClick={() => setConfirmComplete(false)}>Cancel</TextButton>
+        </div>
+      )}
+
+      {!editing && (
+        <div className="md:col-span-12">
+          <SubtaskList
+            subtasks={subtasks}
+            now={now}
+            onChange={(next) => onUpdate({ subtasks: next })}
+          />
+        </div>
+      )}
+
+      {showSessions && !editing && (
+        <div className="md:col-span-12">
+          <SessionLog todo={todo} now={now} onChange={onUpdateSessions} />
+        </div>
+      )}
     </div>
   );
 }
 
-// --- Completed Row -------------------------------------------------------
-function CompletedRow({ todo, onUndo, onRemove }) {
+// --- Notes ---------------------------------------------------------------
+// Notes are Markdown. The parser returns plain data and everything is built
+// as React elements here, so nothing from a note is ever set as HTML.
+const HEADING_CLASSES = ["", "text-base font-semibold", "text-sm font-semibold", "text-sm font-medium"];
+
+function Markdown({ text, onToggleTask = null, className = "" }) {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
   return (
-    <div className="grid grid-cols-1 items-center gap-3 rounded-2xl border bg-white p-3 shadow-sm md:grid-cols-12">
-      <div className="md:col-span-7">
-        <div className="flex items-center gap-2">
-          <h3 className="line-through">{todo.title}</h3>
-          <Badge color="bg-emerald-100 text-emerald-700 border-emerald-300">Done</Badge>
-        </div>
-        {todo.notes && (
-          <p className="mt-1 text-sm text-slate-600 whitespace-pre-wrap">{todo.notes}</p>
-        )}
-      </div>
-      <div className="md:col-span-2">
-        <div className="rounded-xl border bg-slate-50 px-3 py-2 font-mono text-sm">
-          {msToHMS(todo.elapsedMs)}
-        </div>
-      </div>
-      <div className="md:col-span-3 flex items-center justify-end gap-2">
-        <IconButton title="Undo" onClick={onUndo}>Undo</IconButton>
-        <IconButton title="Delete" onClick={onRemove}>Delete</IconButton>
-      </div>
+    <div className={`flex flex-col gap-1.5 break-words text-sm text-slate-600 ${className}`}>
+      {blocks.map((b, i) => {
+        switch (b.type) {
+          case "heading":
+            return (
+              <div key={i} role="heading" aria-level={b.level} className={`text-slate-800 ${HEADING_CLASSES[Math.min(b.level, 3)]}`}>
+                <InlineMarkdown text={b.text} />
+              </div>
+            );
+          case "code":
+            return (
+              <pre key={i} className="overflow-x-auto rounded-lg bg-slate-100 px-3 py-2 font-mono text-xs text-slate-800">
+                {b.text}
+              </pre>
+            );
+          case "quote":
+            return (
+              <blockquote key={i} className="whitespace-pre-wrap border-l-2 border-slate-300 pl-3 italic">
+                <InlineMarkdown text={b.text} />
+              </blockquote>
+            );
+          case "rule":
+            return <hr key={i} className="border-slate-200" />;
+          case "list": {
+            const List = b.ordered ? "ol" : "ul";
+            return (
+              <List key={i} className={`flex flex-col gap-0.5 pl-5 ${b.ordered ? "list-decimal" : "list-disc"}`}>
+                {b.items.map((item) => (
+                  <li
+                    key={item.line}
+                    // Checklist items drop the bullet and pull the box into its place.
+                    style={{ marginLeft: `${(item.indent - (item.task != null ? 1 : 0)) * 1.25}rem` }}
+                    className={`whitespace-pre-wrap ${item.task != null ? "list-none" : ""}`}
+                  >
+                    {item.task != null && (
+                      <input
+                        type="checkbox"
+                        checked={item.task}
+                        disabled={!onToggleTask}
+                        onChange={() => onToggleTask(item.line)}
+                        onClick={(e) => e.stopPropagation()}
+                        className="mr-2 align-middle"
+                      />
+                    )}
+                    <span className={item.task ? "text-slate-400 line-through" : ""}>
+                      <InlineMarkdown text={item.text} />
+                    </span>
+                  </li>
+                ))}
+              </List>
+            );
+          }
+          default:
+            return (
+              <p key={i} className="whitespace-pre-wrap">
+                <InlineMarkdown text={b.text} />
+              </p>
+            );
+        }
+      })}
     </div>
   );
 }
 
-// --- Stats Card ----------------------------------------------------------
-function StatsCard({ todos, now }) {
-  const active = todos.filter((t) => !t.completed);
-  const completed = todos.filter((t) => t.completed);
+function InlineMarkdown({ text }) {
+  return <InlineNodes nodes={parseInline(text)} />;
+}
 
-  const totalActiveMs = active.reduce(
-    (acc, t) => acc + t.elapsedMs + (t.running && t.startedAt ? now - t.startedAt : 0),
-    0
-  );
-  const totalCompletedMs = completed.reduce((acc, t) => acc + t.elapsedMs, 0);
+function InlineNodes({ nodes }) {
+  return nodes.map((n, i) => {
+    switch (n.type) {
+      case "code":
+        return (
+          <code key={i} className="rounded bg-slate-100 px-1 font-mono text-xs text-slate-800">
+            {n.text}
+          </code>
+        );
+      case "strong":
+        return (
+          <strong key={i} className="font-semibold text-slate-800">
+            <InlineNodes nodes={n.children} />
+          </strong>
+        );
+      case "em":
+        return (
+          <em key={i}>
+            <InlineNodes nodes={n.children} />
+          </em>
+        );
+      case "strike":
+        return (
+          <s key={i}>
+            <InlineNodes nodes={n.children} />
+          </s>
+        );
+      case "link":
+        return (
+          <a
+            key={i}
+            href={n.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={(e) => e.stopPropagation()}
+            className="text-indigo-600 underline hover:text-indigo-800"
+          >
+            <InlineNodes nodes={n.children} />
+          </a>
+        );
+      default:
+        return <React.Fragment key={i}>{n.text}</React.Fragment>;
+    }
+  });
+}
+
+/** Notes textarea with a Markdown preview and a larger, expanded mode. */
+function NotesEditor({ value, onChange }) {
+  const [preview, setPreview] = useState(false);
+  const [expanded, setExpanded] = useState(false);
+  const tab = (on) => `rounded-lg px-2 py-0.5 ${on ? "bg-slate-900 text-white" : "hover:bg-slate-100"}`;
 
   return (
-    <div className="rounded-2xl border bg-white p-4 shadow-sm">
-      <h3 className="text-base font-semibold">Overview</h3>
-      <div className="mt-3 grid grid-cols-2 gap-3">
-        <Stat label="Active" value={active.length} />
-        <Stat label="Completed" value={completed.length} />
-        <Stat label="Time (active)" value={msToHMS(totalActiveMs)} mono />
-        <Stat label="Time (done)" value={msToHMS(totalCompletedMs)} mono />
+    <div className="rounded-xl border">
+      <div className="flex items-center gap-1 border-b px-2 py-1 text-xs">
+        <button type="button" onClick={() => setPreview(false)} className={tab(!preview)}>
+          Write
+        </button>
+        <button type="button" onClick={() => setPreview(true)} className={tab(preview)}>
+          Preview
+        </button>
+        <span className="ml-auto hidden text-slate-400 sm:inline">Markdown: # heading, - [ ] item, [link](url)</span>
+        <button
+          type="button"
+          title={expanded ? "Shrink the editor" : "Expand the editor"}
+          onClick={() => setExpanded((v) => !v)}
+          className="rounded-lg px-2 py-0.5 hover:bg-slate-100"
+        >
+          {expanded ? "⤡" : "⤢"}
+        </button>
       </div>
+      {preview ? (
+        <div className={`overflow-y-auto px-3 py-2 ${expanded ? "h-80" : "max-h-32"}`}>
+          {value.trim() ? (
+            <Markdown text={value} onToggleTask={(line) => onChange(toggleTask(value, line))} />
+          ) : (
+            <p className="text-sm text-slate-400">Nothing to preview.</p>
+          )}
+        </div>
+      ) : (
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="block w-full resize-y rounded-b-xl px-3 py-2 text-sm"
+          placeholder="Notes… (Markdown)"
+          rows={expanded ? 14 : 3}
+        />
+      )}
     </div>
   );
 }
 
-function Stat({ label, value, mono = false }) {
+// --- Alert thresholds ----------------------------------------------------
+const ALERT_ICONS = { notify: "🔔", toast: "💬", chime: "🎵", stop: "⏹" };
+
+function ThresholdEditor({ value, onChange }) {
+  const patch = (id, p) => onChange(value.map((a) => (a.id === id ? { ...a, ...p } : a)));
+  const last = value[value.length - 1];
+
   return (
-    <div className="rounded-xl border bg-slate-50 p-3">
-      <div className="text-xs text-slate-500">{label}</div>
-      <div className={`${mono ? "font-mono" : "font-semibold"} text-lg`}>{value}</div>
+    <div className="flex flex-col gap-1.5">
+      <span className="text-sm text-slate-600">Alerts at tracked time</span>
+      {value.map((a) => (
+        <div key={a.id} className="flex flex-wrap items-center gap-2">
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={a.minutes || ""}
+            onChange={(e) => patch(a.id, { minutes: Math.round(Number(e.target.value)) || 0 })}
+            aria-label="Minutes"
+            className="w-24 rounded-xl border px-3 py-1.5"
+          />
+          <span className="text-sm text-slate-500">min</span>
+          <select
+            value={a.action}
+            onChange={(e) => patch(a.id, { action: e.target.value })}
+            aria-label="Action"
+            className="rounded-xl border bg-white px-2 py-1.5 text-sm"
+          >
+            {Object.entries(ALERT_ACTIONS).map(([key, label]) => (
+              <option key={key} value={key}>
+                {ALERT_ICONS[key]} {label}
+              </option>
+            ))}
+          </select>
+          <TextButton onClick={() => onChange(value.filter((x) => x.id !== a.id))}>Remove</TextButton>
+        </div>
+      ))}
+      <div>
+        <TextButton onClick={() => onChange([...value, makeThreshold(last ? last.minutes + 15 : 25)])}>
+          + Add alert
+        </TextButton>
+      </div>
     </div>
   );
 }
 
-// --- Inline self-tests (dev only) ---------------------------------------
-(function runSelfTests() {
-  if (typeof window === "undefined") return; // don't run in SSR
-  if (window.__DO_TODO_TESTED__) return;
-  window.__DO_TODO_TESTED__ = true;
+// --- Subtasks ------------------------------------------------------------
+function SubtaskList({ subtasks, now, onChange }) {
+  const [title, setTitle] = useState("");
+  const [open, setOpen] = useState(false);
 
-  const tests = [];
-  function assertEqual(name, got, expected) {
-    const pass = got === expected;
-    tests.push({ name, pass, got, expected });
+  function add(e) {
+    e.preventDefault();
+    if (!title.trim()) return;
+    onChange([...subtasks, makeSubtask(title)]);
+    setTitle("");
   }
-  function assert(name, cond) {
-    const pass = Boolean(cond);
-    tests.push({ name, pass, got: cond, expected: true });
+
+  if (!subtasks.length && !open) {
+    return <TextButton onClick={() => setOpen(true)}>Add subtask</TextButton>;
   }
 
-  // msToHMS tests (existing)
-  assertEqual("msToHMS 0", msToHMS(0), "00:00:00");
-  assertEqual("msToHMS 1s", msToHMS(1000), "00:00:01");
-  assertEqual("msToHMS 61s", msToHMS(61_000), "00:01:01");
-  assertEqual("msToHMS 3661s", msToHMS(3_661_000), "01:01:01");
+  return (
+    <div className="flex flex-col gap-1">
+      {subtasks.map((s, i) => (
+        <SubtaskItem
+          key={s.id}
+          subtask={s}
+          now={now}
+          first={i === 0}
+          last={i === subtasks.length - 1}
+          onToggleDone={() => onChange(toggleSubtaskDone(subtasks, s.id))}
+          onToggleRun={() => onChange(toggleSubtaskRun(subtasks, s.id))}
+          onMove={(delta) => onChange(moveSubtask(subtasks, s.id, delta))}
+          onRename={(next) => onChange(renameSubtask(subtasks, s.id, next))}
+          onRemove={() => onChange(removeSubtask(subtasks, s.id))}
+        />
+      ))}
+      <form onSubmit={add} className="flex items-center gap-2">
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Add a subtask…"
+          className="min-w-0 flex-1 rounded-xl border bg-white px-3 py-1 text-sm"
+        />
+        <button type="submit" className="rounded-xl border px-3 py-1 text-sm hover:bg-indigo-50">
+          Add
+        </button>
+      </form>
+    </div>
+  );
+}
 
-  // Additional tests
-  assertEqual("msToHMS negative clamps to zero", msToHMS(-1000), "00:00:00");
-  assertEqual("msToHMS 24h+", msToHMS(24 * 3600 * 1000 + 42 * 1000), "24:00:42");
+function SubtaskItem({ subtask, now, first, last, onToggleDone, onToggleRun, onMove, onRename, onRemove }) {
+  const [editing, setEditing] = useState(false);
+  const [title, setTitle] = useState(subtask.title);
+  const ms = subtaskElapsed(subtask, now);
+
+  function save() {
+    onRename(title);
+    setEditing(false);
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <input type="checkbox" checked={subtask.done} onChange={onToggleDone} aria-label="Done" />
+      {editing ? (
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={save}
+          onKeyDown={(e) => e.key === "Enter" && save()}
+          className="min-w-0 flex-1 rounded-xl border px-2 py-0.5"
+          autoFocus
+        />
+      ) : (
+        <span
+          onDoubleClick={() => {
+            setTitle(subtask.title);
+            setEditing(true);
+          }}
+          className={`min-w-0 flex-1 truncate ${subtask.done ? "text-slate-400 line-through" : ""}`}
+          title="Double-click to rename"
+        >
+          {subtask.title}
+        </span>
+      )}
+      {(ms > 0 || subtask.running) && <span className="font-mono text-xs text-slate-600">{msToHMS(ms)}</span>}
+      {!subtask.done && (
+        <TextButton onClick={onToggleRun}>{subtask.running ? "Stop" : "Time"}</TextButton>
+      )}
+      <button
+        title="Move up"
+        onClick={() => onMove(-1)}
+        disabled={first}
+        className="px-1 text-slate-500 disabled:opacity-30"
+      >
+        ↑
+      </button>
+      <button
+        title="Move down"
+        onClick={() => onMove(1)}
+        disabled={last}
+        className="px-1 text-slate-500 disabled:opacity-30"
+      >
+        ↓
+      </button>
+      <button title="Remove subtask" onClick={onRemove} className="px-1 text-slate-500 hover:text-red-600">
+        ×
+      </button>
+    </div>
+  );
+}
+
+// --- Session Log ---------------------------------------------------------
+function SessionLog({ todo, now, onChange }) {
+  const sessions = todo.sessions || [];
+
+  function addSession() {
+    // Manual entry for time worked without the timer: the last 30 minutes.
+    const end = Date.now();
+    onChange([...sessions, makeSession(end - 30 * 60 * 1000, end)]);
+  }
+
+  return (
+    <div className="rounded-xl border bg-slate-50 p-3">
+      <div className="mb-2 flex items-center justify-between">
+        <h4 className="text-sm font-medium text-slate-700">Sessions</h4>
+        <TextButton onClick={addSession}>Add session</TextButton>
+      </div>
+      {sessions.length === 0 && !todo.running ? (
+        <p className="text-sm text-slate-500">No time logged yet.</p>
+      ) : (
+        <div className="flex flex-col gap-2">
+          {sessions.map((s) => (
+            <SessionEntry
+              key={s.id}
+              session={s}
+              onPatch={(patch) => onChange(patchSession(sessions, s.id, patch))}
+              onSplit={() => onChange(splitSession(sessions, s.id))}
+              onRemove={() => onChange(removeSession(sessions, s.id))}
+            />
+          ))}
+          {todo.running && todo.startedAt && (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-sky-700">
+              <span className="font-mono">{toLocalInput(todo.startedAt).replace("T", " ")}</span>
+              <span>→ now</span>
+              <span className="font-mono">{msToHMS(now - todo.startedAt)}</span>
+              <Badge color="bg-sky-100 text-sky-700 border-sky-300">Running</Badge>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SessionEntry({ session, onPatch, onSplit, onRemove }) {
+  const [note, setNote] = useState(session.note || "");
+
+  useEffect(() => {
+    setNote(session.note || "");
+  }, [session.note]);
+
+  // Reject edits that would leave the session with a negative length.
+  function setStart(value) {
+    const start = fromLocalInput(value);
+    if (start !== null && start <= session.end) onPatch({ start });
+  }
+
+  function setEnd(value) {
+    const end = fromLocalInput(value);
+    if (end !== null && end >= session.start) onPatch({ end });
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <input
+        type="datetime-local"
+        step={1}
+        value={toLocalInput(session.start)}
+        onChange={(e) => setStart(e.target.value)}
+        className="rounded-xl border bg-white px-2 py-1 text-sm"
+        aria-label="Session start"
+      />
+      <span className="text-sm text-slate-500">→</span>
+      <input
+        type="datetime-local"
+        step={1}
+        value={toLocalInput(session.end)}
+        onChange={(e) => setEnd(e.target.value)}
+        className="rounded-xl border bg-white px-2 py-1 text-sm"
+        aria-label="Session end"
+      />
+      <span className="font-mono text-sm">{msToHMS(sessionMs(session))}</span>
+      <input
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        onBlur={() => note !== (session.note || "") && onPatch({ note })}
+        placeholder="Note"
+        className="min-w-0 flex-1 rounded-xl border bg-white px-2 py-1 text-sm"
+      />
+      <IconButton title="Split at midpoint" onClick={onSplit}>Split</IconButton>
+      <IconButton title="Delete session" onClick={onRemove}>Delete</IconButton>
+    </div>
+  );
+}
+
+// --- Projects & tags -----------------------------------------------------
+function ProjectSelect({ projects, value, onChange, className = "" }) {
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={className} aria-label="Project">
+      <option value="">Inbox (no project)</option>
+      {projects.map((p) => (
+        <option key={p.id} value={p.id}>{p.name}</option>
+      ))}
+    </select>
+  );
+}
+
+function PrioritySelect({ value, onChange, className = "" }) {
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={className} aria-label="Priority">
+      <option value="">No priority</option>
+      {PRIORITIES.map((p) => (
+        <option key={p} value={p}>{p[0].toUpperCase() + p.slice(1)}</option>
+      ))}
+    </select>
+  );
+}
+
+function TodoLabels({ todo, projects, onTagClick }) {
+  const project = projects.find((p) => p.id === todo.projectId);
+  const tags = todo.tags || [];
+  if (!project && !tags.length) return null;
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-1">
+      {project && <Badge color="bg-slate-100 text-slate-700 border-slate-300">{project.name}</Badge>}
+      {tags.map((tag) => (
+        <button
+          key={tag}
+          title={`Show #${tag}`}
+          onClick={() => onTagClick(tag)}
+          className="rounded-full border border-pink-300 bg-pink-50 px-2 py-0.5 text-xs text-pink-700 hover:bg-pink-100"
+        >
+          #{tag}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// --- Recurrence Picker ---------------------------------------------------
+function RecurrencePicker({ value, onChange, anchor, className = "" }) {
+  const kind = value?.kind ?? "";
+  const labels = {
+    daily: "Daily",
+    weekdays: "Weekdays",
+    weekly: "Weekly on…",
+    monthly: "Monthly on day…",
+    interval: "Every N days",
+  };
+
+  function toggleDay(day) {
+    const days = value.days.includes(day) ? value.days.filter((d) => d !== day) : [...value.days, day];
+    if (days.length) onChange({ ...value, days });
+  }
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 text-sm ${className}`}>
+      <select
+        value={kind}
+        onChange={(e) => onChange(e.target.value ? defaultRule(e.target.value, anchor) : null)}
+        className="rounded-xl border bg-white px-3 py-1.5"
+        aria-label="Repeat"
+      >
+        <option value="">Does not repeat</option>
+        {RECURRENCE_KINDS.map((k) => (
+          <option key={k} value={k}>{labels[k]}</option>
+        ))}
+      </select>
+      {kind === "weekly" &&
+        [1, 2, 3, 4, 5, 6, 0].map((day) => (
+          <button
+            key={day}
+            type="button"
+            onClick={() => toggleDay(day)}
+            className={`rounded-full border px-2 py-0.5 text-xs ${
+              value.days.includes(day) ? "bg-indigo-600 text-white" : "bg-white text-slate-600"
+            }`}
+          >
+            {WEEKDAY_NAMES[day]}
+          </button>
+        ))}
+      {kind === "monthly" && (
+        <input
+          type="number"
+          min={1}
+          max={31}
+          value={value.dayOfMonth}
+          onChange={(e) => {
+            const n = Math.round(Number(e.target.value));
+            if (n >= 1 && n <= 31) onChange({ ...value, dayOfMonth: n });
+          }}
+          className="w-20 rounded-xl border bg-white px-3 py-1.5"
+          aria-label="Day of month"
+        />
+      )}
+      {kind === "interval" && (
+        <input
+          type="number"
+          min={1}
+          value={value.every}
+          onChange={(e) => {
+            const n = Math.round(Number(e.target.value));
+            if (n >= 1) onChange({ ...value, every: n });
+          }}
+          className="w-20 rounded-xl border bg-white px-3 py-1.5"
+          aria-label="Every N days"
+        />
+      )}
+    </div>
+  );
+}
+
+// --- Estimates -----------------------------------------------------------
+const ESTIMATE_COLORS = {
+  ok: "bg-indigo-500",
+  near: "bg-amber-500",
+  over: "bg-red-500",
+};
+
+function EstimateBar({ todo, actualMs }) {
+  const status = estimateStatus(todo, actualMs);
+  const over = variance(todo, actualMs);
+  return (
+    <div className="flex items-center gap-3 text-xs text-slate-600">
+      <div className="h-2 flex-1 overflow-hidden rounded-full bg-slate-100">
+        <div
+          className={`h-2 rounded-full ${ESTIMATE_COLORS[status.level]}`}
+          style={{ width: `${Math.min(100, status.ratio * 100)}%` }}
+        />
+      </div>
+      <span className={`font-mono ${status.level === "over" ? "text-red-600" : ""}`}>
+        {status.level === "over"
+          ? `${msToHMS(over)} over ${formatDuration(todo.estimateMinutes)}`
+          : `${Math.round(status.ratio * 100)}% of ${formatDuration(todo.estimateMinutes)}`}
+      </span>
+    </div>
+  );
+}
+
+/** Final time against the estimate on a completed todo, e.g. "+25m (121%)". */
+function VarianceBadge({ todo, actualMs }) {
+  const diff = variance(todo, actualMs);
+  const minutes = Math.round(Math.abs(diff) / 60_000);
+  const pct = Math.round((actualMs / estimateMs(todo)) * 100);
+  const over = diff > 0;
+  return (
+    <Badge
+      color={
+        Math.abs(diff) <= estimateMs(todo) * ON_TARGET
+          ? "bg-emerald-50 text-emerald-700 border-emerald-300"
+          : over
+          ? "bg-red-50 text-red-700 border-red-300"
+          : "bg-sky-50 text-sky-700 border-sky-300"
+      }
+    >
+      <span title={`Estimated ${formatDuration(todo.estimateMinutes)}, took ${msToHMS(actualMs)}`}>
+        {over ? "+" : "−"}
+        {minutes ? formatDuration(minutes) : "0m"} ({pct}%)
+      </span>
+    </Badge>
+  );
+}
+
+// --- Completed Row -------------------------------------------------------
+function CompletedRow({
+  todo,
+  projects,
+  onTagClick,
+  onUndo,
+  onArchive,
+  onToggleNoteTask,
+  onSaveTemplate,
+  selected = false,
+  onSelect,
+  checked = false,
+  onCheck,
+}) {
+  return (
+    <div
+      data-todo-id={todo.id}
+      onClick={onSelect}
+      className={`grid grid-cols-1 items-center gap-3 rounded-2xl border p-3 shadow-sm md:grid-cols-12 ${
+        checked ? "bg-indigo-50" : "bg-white"
+      } ${selected ? "outline outline-2 outline-offset-2 outline-indigo-500" : ""}`}
+    >
+      <div className="md:col-span-7">
+        <div className="flex items-center gap-2">
+          <RowCheckbox title={todo.title} checked={checked} onCheck={onCheck} />
+          <h3 className="line-through">{todo.title}</h3>
+          <Badge color="bg-emerald-100 text-emerald-700 border-emerald-300">Done</Badge>
+          {todo.pomodoros > 0 && (
+            <Badge color="bg-rose-100 text-rose-700 border-rose-300">🍅 {todo.pomodoros}</Badge>
+          )}
+          {todo.estimateMinutes ? <VarianceBadge todo={todo} actualMs={liveElapsed(todo, 0)} /> : null}
+        </div>
+        <TodoLabels todo={todo} projects={projects} onTagClick={onTagClick} />
+        {todo.notes && <Markdown text={todo.notes} onToggleTask={onToggleNoteTask} className="mt-1" />}
+      </div>
+      <div className="md:col-span-2">
+        <div className="rounded-xl border bg-slate-50 px-3 py-2 font-mono text-sm">
+          {msToHMS(liveElapsed(todo, 0))}
+        </div>
+      </div>
+      <div className="md:col-span-3 flex items-center justify-end gap-2">
+        <IconButton title="Undo" onClick={onUndo}>Undo</IconButton>
+        <IconButton title="Move to the archive" onClick={onArchive}>Archive</IconButton>
+        <IconButton title="Save as template" onClick={onSaveTemplate}>⧉</IconButton>
+      </div>
+    </div>
+  );
+}
+
+// Shift-click ticks the range from the last row ticked.
+function RowCheckbox({ title, checked, onCheck }) {
+  return (
+    <input
+      type="checkbox"
+      checked={checked}
+      readOnly
+      onClick={(e) => {
+        e.stopPropagation();
+        onCheck(e.shiftKey);
+      }}
+      title="Select (shift-click for a range)"
+      aria-label={`Select ${title}`}
+      className="h-4 w-4 shrink-0 accent-indigo-600"
+    />
+  );
+}
+
+// --- Batch Bar -----------------------------------------------------------
+function BatchBar({ todos, matching, onSelectAll, onClear, onComplete, onReopen, onStop, onWarn, onExport, onDelete }) {
+  const [warn, setWarn] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const open = todos.filter((t) => !t.completed).length;
+  const done = todos.length - open;
+  const running = todos.filter((t) => t.running || t.focus || (t.subtasks || []).some((s) => s.running)).length;
+  const warnMinutes = parseDuration(warn);
+
+  function submitWarn(e) {
+    e.preventDefault();
+    if (warn.trim() && warnMinutes == null) return;
+    onWarn(warnMinutes);
+    setWarn("");
+  }
+
+  return (
+    <div className="fixed inset-x-0 bottom-4 z-30 flex justify-center px-2">
+      <div className="flex max-w-3xl flex-col gap-2 rounded-2xl border bg-white p-3 text-sm shadow-lg">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium text-indigo-700">{todos.length} selected</span>
+          {todos.length < matching && <TextButton onClick={onSelectAll}>Select all {matching} matching</TextButton>}
+          <TextButton onClick={onClear}>Clear</TextButton>
+          <span className="mx-1 h-5 border-l" />
+          {open > 0 && (
+            <IconButton title="Complete the selected tasks" onClick={onComplete}>
+              Complete{done ? ` ${open}` : ""}
+            </IconButton>
+          )}
+          {done > 0 && (
+            <IconButton title="Move the selected completed tasks back to Active" onClick={onReopen}>
+              Undo{open ? ` ${done}` : ""}
+            </IconButton>
+          )}
+          {running > 0 && (
+            <IconButton title="Stop every running timer in the selection" onClick={onStop}>
+              Stop {running === 1 ? "timer" : `${running} timers`}
+            </IconButton>
+          )}
+          <IconButton title="Export the selected tasks as CSV" onClick={() => onExport("csv")}>
+            CSV
+          </IconButton>
+          <IconButton title="Export the selected tasks as JSON" onClick={() => onExport("json")}>
+            JSON
+          </IconButton>
+          <IconButton title="Delete the selected tasks" onClick={() => setConfirmDelete(true)}>
+            Delete…
+          </IconButton>
+        </div>
+        {open > 0 && (
+          <form onSubmit={submitWarn} className="flex flex-wrap items-center gap-2">
+            <label className="text-slate-600" htmlFor="batch-warn">
+              Warn at
+            </label>
+            <input
+              id="batch-warn"
+              value={warn}
+              onChange={(e) => setWarn(e.target.value)}
+              placeholder="25m or 1h30m (empty: none)"
+              className={`w-48 rounded-xl border px-2 py-1 ${warn.trim() && warnMinutes == null ? "ring-2 ring-amber-300" : ""}`}
+            />
+            <button
+              type="submit"
+              disabled={Boolean(warn.trim()) && warnMinutes == null}
+              className="rounded-xl border px-3 py-1 hover:bg-slate-50 disabled:opacity-40"
+            >
+              {warn.trim() ? "Set warning" : "Remove warnings"}
+            </button>
+          </form>
+        )}
+        {confirmDelete && (
+          <div className="flex flex-wrap items-center gap-3 rounded-xl border border-red-300 bg-red-50 p-2">
+            <span>
+              Delete {todos.length} {todos.length === 1 ? "task" : "tasks"} and their tracked time?
+            </span>
+            <button
+              onClick={() => {
+                onDelete();
+                setConfirmDelete(false);
+              }}
+              className="rounded-xl bg-red-600 px-3 py-1 text-white hover:opacity-90"
+            >
+              Delete
+            </button>
+            <TextButton onClick={() => setConfirmDelete(false)}>Cancel</TextButton>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// --- Stats Card ----------------------------------------------------------
+function StatsCard({ todos, projects, now }) {
+  const active = todos.filter((t) => !t.completed);
+  const completed = todos.filter((t) => t.completed);
+
+  const totalActiveMs = active.reduce((acc, t) => acc + liveElapsed(t, now), 0);
+  const totalCompletedMs = completed.reduce((acc, t) => acc + liveElapsed(t, now), 0);
+
+  // Projects are grouped by id, so two with the same name stay apart; todos
+  // of a deleted project count towards the Inbox.
+  const names = new Map(projects.map((p) => [p.id, p.name]));
+  const byProject = new Map();
+  const byTag = new Map();
+  todos.forEach((t) => {
+    const ms = liveElapsed(t, now);
+    const key = names.has(t.projectId) ? t.projectId : null;
+    byProject.set(key, (byProject.get(key) ?? 0) + ms);
+    (t.tags || []).forEach((tag) => byTag.set(`#${tag}`, (byTag.get(`#${tag}`) ?? 0) + ms));
+  });
+
+  return (
+    <div className="rounded-2xl border bg-white p-4 shadow-sm">
+      <h3 className="text-base font-semibold">Overview</h3>
+      <div className="mt-3 grid grid-cols-2 gap-3">
+        <Stat label="Active" value={active.length} />
+        <Stat label="Completed" value={completed.length} />
+        <Stat label="Time (active)" value={msToHMS(totalActiveMs)} mono />
+        <Stat label="Time (done)" value={msToHMS(totalCompletedMs)} mono />
+      </div>
+      <TimeBreakdown title="By project" entries={byProject} label={(id) => names.get(id) ?? "Inbox"} />
+      <TimeBreakdown title="By tag" entries={byTag} />
+      <EstimateAccuracy todos={todos} />
+    </div>
+  );
+}
+
+const ACCURACY_WINDOWS = [5, 10, 20, 50];
+
+function EstimateAccuracy({ todos }) {
+  const [n, setN] = useState(10);
+  const accuracy = estimateAccuracy(
+    lastEstimated(todos, n).map((t) => ({ estimateMs: estimateMs(t), actualMs: liveElapsed(t, 0) }))
+  );
+  if (!accuracy) return null;
+  const pct = (x) => `${Math.round(x * 100)}%`;
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="text-xs font-medium text-slate-500">Estimates</h4>
+        <select
+          value={n}
+          onChange={(e) => setN(Number(e.target.value))}
+          className="rounded-lg border px-1 py-0.5 text-xs"
+          aria-label="Completed tasks to include"
+        >
+          {ACCURACY_WINDOWS.map((w) => (
+            <option key={w} value={w}>Last {w}</option>
+          ))}
+        </select>
+      </div>
+      <div className="mt-1 flex flex-col gap-1 text-sm">
+        <div className="flex justify-between gap-2">
+          <span>On target (±{Math.round(ON_TARGET * 100)}%)</span>
+          <span className="font-mono">
+            {pct(accuracy.onTarget)} of {accuracy.count}
+          </span>
+        </div>
+        <div className="flex justify-between gap-2">
+          <span>Average error</span>
+          <span className="font-mono">±{pct(accuracy.meanError)}</span>
+        </div>
+        <div className="flex justify-between gap-2">
+          <span>{accuracy.bias > 0 ? "Tends to run over" : "Tends to finish early"}</span>
+          <span className="font-mono">{pct(Math.abs(accuracy.bias))}</span>
+        </div>
+        <div className="flex justify-between gap-2 text-slate-500">
+          <span>Estimated / actual</span>
+          <span className="font-mono">
+            {msToHMS(accuracy.estimatedMs)} / {msToHMS(accuracy.actualMs)}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** `entries` maps a key to milliseconds; `label` names the key for display. */
+function TimeBreakdown({ title, entries, label = (key) => key }) {
+  const rows = Array.from(entries).sort((a, b) => b[1] - a[1]);
+  if (!rows.length) return null;
+  return (
+    <div className="mt-4">
+      <h4 className="text-xs font-medium text-slate-500">{title}</h4>
+      <div className="mt-1 flex flex-col gap-1">
+        {rows.map(([key, ms]) => (
+          <div key={key ?? ""} className="flex items-center justify-between gap-2 text-sm">
+            <span className="truncate">{label(key)}</span>
+            <span className="font-mono">{msToHMS(ms)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// --- Command palette & shortcut help --------------------------------------
+const SHORTCUTS = [
+  { keys: ["j", "↓"], label: "Select next task" },
+  { keys: ["k", "↑"], label: "Select previous task" },
+  { keys: ["Space", "s"], label: "Start / stop timer" },
+  { keys: ["x"], label: "Complete (or reopen) task" },
+  { keys: ["e", "Enter"], label: "Edit task" },
+  { keys: ["f"], label: "Start / stop focus mode" },
+  { keys: ["d", "Delete"], label: "Delete task (archive when completed)" },
+  { keys: ["Alt+↑", "Alt+↓"], label: "Move task up / down (Manual sort)" },
+  { keys: ["Esc"], label: "Clear selection / leave field" },
+  { keys: ["n"], label: "New task" },
+  { keys: ["/"], label: "Search" },
+  { keys: ["Ctrl+K"], label: "Command palette" },
+  { keys: ["Ctrl+Z"], label: "Undo" },
+  { keys: ["Ctrl+Shift+Z", "Ctrl+Y"], label: "Redo" },
+  { keys: ["?"], label: "This help" },
+];
+
+function Kbd({ children }) {
+  return <kbd className="rounded-md border bg-slate-50 px-1.5 py-0.5 font-mono text-xs text-slate-700">{children}</kbd>;
+}
+
+function CommandPalette({ commands, onClose }) {
+  const [query, setQuery] = useState("");
+  const [index, setIndex] = useState(0);
+  const matches = rankCommands(commands, query).slice(0, 50);
+  const listRef = useRef(null);
+
+  useEffect(() => {
+    listRef.current?.children[index]?.scrollIntoView({ block: "nearest" });
+  }, [index]);
+
+  function run(cmd) {
+    onClose();
+    cmd.run();
+  }
+
+  function onKeyDown(e) {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setIndex((i) => Math.min(matches.length - 1, i + 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setIndex((i) => Math.max(0, i - 1));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (matches[index]) run(matches[index]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-slate-900/40 p-4 pt-24" onClick={onClose}>
+      <div className="w-full max-w-lg rounded-2xl border bg-white shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIndex(0);
+          }}
+          onKeyDown={onKeyDown}
+          placeholder="Type a command or task…"
+          className="w-full rounded-t-2xl border-b px-4 py-3 focus:outline-none"
+        />
+        <ul ref={listRef} className="max-h-80 overflow-y-auto py-1">
+          {matches.length === 0 && <li className="px-4 py-2 text-sm text-slate-500">No matches.</li>}
+          {matches.map((cmd, i) => (
+            <li
+              key={cmd.id}
+              onMouseEnter={() => setIndex(i)}
+              onClick={() => run(cmd)}
+              className={`flex cursor-pointer items-center justify-between gap-3 px-4 py-2 text-sm ${
+                i === index ? "bg-indigo-50 text-indigo-700" : ""
+              }`}
+            >
+              <span className="truncate">{cmd.label}</span>
+              {cmd.hint && <Kbd>{cmd.hint}</Kbd>}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+function ShortcutHelp({ onClose }) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4" onClick={onClose}>
+      <div className="w-full max-w-md rounded-2xl border bg-white p-5 shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Keyboard shortcuts</h2>
+          <IconButton title="Close" onClick={onClose}>
+            ×
+          </IconButton>
+        </div>
+        <dl className="mt-3 flex flex-col gap-1.5 text-sm">
+          {SHORTCUTS.map((s) => (
+            <div key={s.label} className="flex items-center justify-between gap-3">
+              <dt className="text-slate-600">{s.label}</dt>
+              <dd className="flex gap-1">
+                {s.keys.map((k) => (
+                  <Kbd key={k}>{k}</Kbd>
+                ))}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+}
+
+// --- Reports -------------------------------------------------------------
+const RANGE_PRESETS = [
+  { key: "week", label: "This week" },
+  { key: "last-week", label: "Last week" },
+  { key: "7d", label: "Last 7 days" },
+  { key: "30d", label: "Last 30 days" },
+];
+
+function presetRange(key, now) {
+  const today = startOfDay(now);
+  const monday = weekStart(now);
+  switch (key) {
+    case "last-week":
+      return { from: addDays(monday, -7), to: addDays(monday, -1) };
+    case "7d":
+      return { from: addDays(today, -6), to: today };
+    case "30d":
+      return { from: addDays(today, -29), to: today };
+    default:
+      return { from: monday, to: addDays(monday, 6) };
+  }
+}
+
+function ReportsView({ todos, projects, now }) {
+  // Both ends of the range are inclusive days, as shown in the date inputs.
+  const [range, setRange] = useState(() => presetRange("week", now));
+  const [sheetWeek, setSheetWeek] = useState(() => weekStart(now));
+
+  const report = useMemo(
+    () => buildReport(todos, range.from, addDays(range.to, 1), now),
+    [todos, range, now]
+  );
+  const sheet = useMemo(() => buildReport(todos, sheetWeek, addDays(sheetWeek, 7), now), [todos, sheetWeek, now]);
+
+  function setEnd(key, value) {
+    const ms = fromDateInput(value);
+    if (ms == null) return;
+    setRange((r) => {
+      const next = { ...r, [key]: ms };
+      return next.from <= next.to ? next : { from: ms, to: ms };
+    });
+  }
+
+  function exportSheet() {
+    downloadFile(`do-todo-timesheet-${dateStamp(sheetWeek)}.csv`, timesheetCSV(sheet, projects), "text/csv");
+  }
+
+  const weekday = (day) => new Date(day).toLocaleDateString([], { weekday: "short" });
+  const shortDate = (day) => new Date(day).toLocaleDateString([], { month: "short", day: "numeric" });
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="rounded-2xl border bg-white p-4 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold text-indigo-700">Time report</h2>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {RANGE_PRESETS.map((p) => (
+              <IconButton key={p.key} title={p.label} onClick={() => setRange(presetRange(p.key, now))}>
+                {p.label}
+              </IconButton>
+            ))}
+            <input
+              type="date"
+              value={dateStamp(range.from)}
+              onChange={(e) => setEnd("from", e.target.value)}
+              className="rounded-xl border px-2 py-1"
+              aria-label="From"
+            />
+            <span className="text-slate-400">–</span>
+            <input
+              type="date"
+              value={dateStamp(range.to)}
+              onChange={(e) => setEnd("to", e.target.value)}
+              className="rounded-xl border px-2 py-1"
+              aria-label="To"
+            />
+          </div>
+        </div>
+
+        <div className="mt-4 grid grid-cols-3 gap-3">
+          <Stat label="Total" value={msToHMS(report.total)} mono />
+          <Stat label="Daily average" value={msToHMS(report.total / report.days.length)} mono />
+          <Stat label="Completed" value={report.dayCompleted.reduce((a, b) => a + b, 0)} />
+        </div>
+
+        <h3 className="mt-5 text-sm font-medium text-slate-600">Per day</h3>
+        <DayChart report={report} label={report.days.length <= 7 ? weekday : shortDate} />
+
+        <h3 className="mt-5 text-sm font-medium text-slate-600">Per task</h3>
+        {report.rows.length === 0 ? (
+          <p className="mt-2 text-sm text-slate-500">No time logged in this range.</p>
+        ) : (
+          <div className="mt-2 flex flex-col gap-1.5">
+            {report.rows.map((r) => (
+              <BarRow
+                key={r.todo.id}
+                label={r.todo.title}
+                ms={r.total}
+                max={report.rows[0].total}
+                muted={r.todo.completed}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-2xl border bg-white p-4 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold text-pink-700">Weekly timesheet</h2>
+          <div className="flex items-center gap-2 text-sm">
+            <IconButton title="Previous week" onClick={() => setSheetWeek((w) => addDays(w, -7))}>
+              ‹
+            </IconButton>
+            <span className="min-w-36 text-center text-slate-600">
+              {shortDate(sheetWeek)} – {shortDate(addDays(sheetWeek, 6))}
+            </span>
+            <IconButton title="Next week" onClick={() => setSheetWeek((w) => addDays(w, 7))}>
+              ›
+            </IconButton>
+            <IconButton title="This week" onClick={() => setSheetWeek(weekStart(now))}>
+              Today
+            </IconButton>
+            <IconButton title="Export timesheet as CSV" onClick={exportSheet}>
+              Export CSV
+            </IconButton>
+          </div>
+        </div>
+        <div className="mt-3 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-slate-500">
+                <th className="py-1 pr-2 text-left font-medium">Task</th>
+                {sheet.days.map((day) => (
+                  <th key={day} className="px-2 py-1 text-right font-medium">
+                    {weekday(day)}
+                    <div className="font-normal text-slate-400">{shortDate(day)}</div>
+                  </th>
+                ))}
+                <th className="py-1 pl-2 text-right font-medium">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sheet.rows.length === 0 && (
+                <tr>
+                  <td colSpan={sheet.days.length + 2} className="py-3 text-slate-500">
+                    No time logged this week.
+                  </td>
+                </tr>
+              )}
+              {sheet.rows.map((r) => (
+                <tr key={r.todo.id} className="border-t">
+                  <td className="max-w-56 truncate py-1 pr-2" title={r.todo.title}>
+                    {r.todo.title}
+                  </td>
+                  {r.byDay.map((ms, i) => (
+                    <td key={i} className={`px-2 py-1 text-right font-mono ${ms ? "" : "text-slate-300"}`}>
+                      {ms ? msToClock(ms) : "–"}
+                    </td>
+                  ))}
+                  <td className="py-1 pl-2 text-right font-mono font-semibold">{msToClock(r.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t-2 font-semibold">
+                <td className="py-1 pr-2">Total</td>
+                {sheet.dayTotals.map((ms, i) => (
+                  <td key={i} className="px-2 py-1 text-right font-mono">
+                    {msToClock(ms)}
+                  </td>
+                ))}
+                <td className="py-1 pl-2 text-right font-mono">{msToClock(sheet.total)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function DayChart({ report, label }) {
+  const max = Math.max(...report.dayTotals, 1);
+  return (
+    <div className="mt-2 flex h-40 items-end gap-1 overflow-x-auto">
+      {report.days.map((day, i) => (
+        <div
+          key={day}
+          className="flex h-full min-w-6 flex-1 flex-col items-center justify-end gap-1"
+          title={`${new Date(day).toLocaleDateString()}: ${msToHMS(report.dayTotals[i])}, ${report.dayCompleted[i]} completed`}
+        >
+          <div
+            className="w-full rounded-t-md bg-gradient-to-t from-indigo-500 to-pink-400"
+            style={{ height: `${(report.dayTotals[i] / max) * 100}%` }}
+          />
+          <span className="text-[10px] text-slate-500">{label(day)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function BarRow({ label, ms, max, muted = false }) {
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className={`w-40 shrink-0 truncate ${muted ? "text-slate-400 line-through" : ""}`} title={label}>
+        {label}
+      </span>
+      <div className="h-3 flex-1 rounded-full bg-slate-100">
+        <div className="h-3 rounded-full bg-indigo-400" style={{ width: `${(ms / max) * 100}%` }} />
+      </div>
+      <span className="w-20 text-right font-mono">{msToHMS(ms)}</span>
+    </div>
+  );
+}
+
+// --- Calendar ------------------------------------------------------------
+const HOUR_PX = 40;
+const MONTH_CELL_ITEMS = 3;
+
+function clockTime(ms) {
+  return new Date(ms).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+function CalendarView({ todos, projects, now }) {
+  const [mode, setMode] = useState("week"); // "week" | "month"
+  const [anchor, setAnchor] = useState(now);
+  const gridRef = useRef(null);
+
+  const range = useMemo(() => calendarRange(mode, anchor), [mode, anchor]);
+  const days = useMemo(() => calendarDays(todos, range, now), [todos, range, now]);
+  const month = new Date(anchor).getMonth();
+  const today = startOfDay(now);
+
+  // Open the week grid scrolled to the working day rather than midnight.
+  useEffect(() => {
+    if (mode === "week" && gridRef.current) gridRef.current.scrollTop = 7 * HOUR_PX;
+  }, [mode]);
+
+  function exportCalendar() {
+    downloadFile(`do-todo-calendar-${dateStamp(now)}.ics`, exportICS(todos, projects, now), "text/calendar");
+  }
+
+  const title =
+    mode === "week"
+      ? `${new Date(range[0]).toLocaleDateString([], { month: "short", day: "numeric" })} – ${new Date(
+          range[6]
+        ).toLocaleDateString([], { month: "short", day: "numeric", year: "numeric" })}`
+      : new Date(anchor).toLocaleDateString([], { month: "long", year: "numeric" });
+  const dayTotal = (d) => d.blocks.reduce((acc, b) => acc + b.end - b.start, 0);
+
+  return (
+    <div className="rounded-2xl border bg-white p-4 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold text-indigo-700">{title}</h2>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <div className="flex overflow-hidden rounded-xl border">
+            {[
+              ["week", "Week"],
+              ["month", "Month"],
+            ].map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => setMode(key)}
+                className={`px-2 py-1 ${mode === key ? "bg-indigo-600 text-white" : "hover:bg-slate-50"}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <IconButton title={`Previous ${mode}`} onClick={() => setAnchor((a) => shiftPeriod(mode, a, -1))}>
+            ‹
+          </IconButton>
+          <IconButton title={`Next ${mode}`} onClick={() => setAnchor((a) => shiftPeriod(mode, a, 1))}>
+            ›
+          </IconButton>
+          <IconButton title="Back to today" onClick={() => setAnchor(now)}>
+            Today
+          </IconButton>
+          <IconButton title="Download worked sessions and due dates as an iCalendar file" onClick={exportCalendar}>
+            Export .ics
+          </IconButton>
+        </div>
+      </div>
+
+      {mode === "week" ? (
+        <div className="mt-3 overflow-x-auto">
+          <div className="min-w-[42rem]">
+            <div className="grid grid-cols-[3rem_repeat(7,minmax(0,1fr))] border-b text-xs">
+              <div />
+              {days.map((d) => (
+                <div key={d.day} className="flex flex-col gap-1 border-l p-1">
+                  <div className={`flex justify-between ${d.day === today ? "font-semibold text-indigo-700" : "text-slate-500"}`}>
+                    <span>{new Date(d.day).toLocaleDateString([], { weekday: "short", day: "numeric" })}</span>
+                    {dayTotal(d) > 0 && <span className="font-mono">{msToClock(dayTotal(d))}</span>}
+                  </div>
+                  {d.due.map((t) => (
+                    <CalendarChip key={`due-${t.id}`} todo={t} kind="due" />
+                  ))}
+                  {d.completed.map((t) => (
+                    <CalendarChip key={`done-${t.id}`} todo={t} kind="done" />
+                  ))}
+                </div>
+              ))}
+            </div>
+            <div ref={gridRef} className="relative max-h-[32rem] overflow-y-auto">
+              <div className="grid grid-cols-[3rem_repeat(7,minmax(0,1fr))]" style={{ height: 24 * HOUR_PX }}>
+                <div className="relative">
+                  {Array.from({ length: 24 }, (_, h) => (
+                    <div
+                      key={h}
+                      className="absolute right-1 text-[10px] text-slate-400"
+                      style={{ top: h * HOUR_PX }}
+                    >
+                      {String(h).padStart(2, "0")}:00
+                    </div>
+                  ))}
+                </div>
+                {days.map((d) => (
+                  <div
+                    key={d.day}
+                    className={`relative border-l ${d.day === today ? "bg-indigo-50/40" : ""}`}
+                    style={{
+                      backgroundImage: "linear-gradient(to bottom, rgb(241 245 249) 1px, transparent 1px)",
+                      backgroundSize: `100% ${HOUR_PX}px`,
+                    }}
+                  >
+                    {d.blocks.map((b, i) => (
+                      <div
+                        key={i}
+                        title={`${b.label}\n${clockTime(b.start)}–${clockTime(b.end)} · ${msToHMS(b.end - b.start)}${
+                          b.running ? " (running)" : ""
+                        }`}
+                        className={`absolute inset-x-0.5 overflow-hidden rounded-md border px-1 text-[10px] leading-tight ${
+                          b.running
+                            ? "animate-pulse border-sky-400 bg-sky-100 text-sky-800"
+                            : "border-indigo-300 bg-indigo-100 text-indigo-800"
+                        }`}
+                        style={{
+                          top: ((b.start - d.day) / 3_600_000) * HOUR_PX,
+                          height: Math.max(((b.end - b.start) / 3_600_000) * HOUR_PX, 3),
+                        }}
+                      >
+                        {b.label}
+                      </div>
+                    ))}
+                    {d.day === today && (
+                      <div
+                        className="absolute inset-x-0 border-t-2 border-pink-500"
+                        style={{ top: ((now - d.day) / 3_600_000) * HOUR_PX }}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="mt-3 overflow-x-auto">
+          <div className="grid min-w-[42rem] grid-cols-7 border-l border-t text-xs">
+            {days.slice(0, 7).map((d) => (
+              <div key={`head-${d.day}`} className="border-b border-r p-1 text-center font-medium text-slate-500">
+                {new Date(d.day).toLocaleDateString([], { weekday: "short" })}
+              </div>
+            ))}
+            {days.map((d) => {
+              const worked = Array.from(new Map(d.blocks.map((b) => [b.todo.id, b])).values());
+              const chips = [
+                ...d.due.map((t) => ({ key: `due-${t.id}`, todo: t, kind: "due" })),
+                ...d.completed.map((t) => ({ key: `done-${t.id}`, todo: t, kind: "done" })),
+                ...worked.map((b) => ({ key: `work-${b.todo.id}`, todo: b.todo, kind: b.running ? "running" : "work" })),
+              ];
+              return (
+                <div
+                  key={d.day}
+                  className={`flex min-h-24 flex-col gap-1 border-b border-r p-1 ${
+                    new Date(d.day).getMonth() === month ? "" : "bg-slate-50 text-slate-400"
+                  } ${d.day === today ? "ring-2 ring-inset ring-indigo-300" : ""}`}
+                >
+                  <div className="flex justify-between">
+                    <span className={d.day === today ? "font-semibold text-indigo-700" : ""}>{new Date(d.day).getDate()}</span>
+                    {dayTotal(d) > 0 && <span className="font-mono">{msToClock(dayTotal(d))}</span>}
+                  </div>
+                  {chips.slice(0, MONTH_CELL_ITEMS).map((c) => (
+                    <CalendarChip key={c.key} todo={c.todo} kind={c.kind} />
+                  ))}
+                  {chips.length > MONTH_CELL_ITEMS && (
+                    <span
+                      className="text-slate-500"
+                      title={chips
+                        .slice(MONTH_CELL_ITEMS)
+                        .map((c) => c.todo.title)
+                        .join("\n")}
+                    >
+                      +{chips.length - MONTH_CELL_ITEMS} more
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="mt-3 flex flex-wrap gap-3 text-xs text-slate-500">
+        {Object.entries(CHIP_STYLES).map(([kind, { label, className }]) => (
+          <span key={kind} className="flex items-center gap-1">
+            <span className={`inline-block h-3 w-3 rounded border ${className}`} />
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const CHIP_STYLES = {
+  due: { label: "Due", className: "border-amber-300 bg-amber-50 text-amber-800" },
+  done: { label: "Completed", className: "border-emerald-300 bg-emerald-50 text-emerald-800" },
+  work: { label: "Worked", className: "border-indigo-300 bg-indigo-100 text-indigo-800" },
+  running: { label: "Running", className: "border-sky-400 bg-sky-100 text-sky-800" },
+};
+
+function CalendarChip({ todo, kind }) {
+  const style = CHIP_STYLES[kind];
+  const prefix = kind === "due" ? "⏰ " : kind === "done" ? "✓ " : "";
+  return (
+    <span
+      title={`${style.label}: ${todo.title}`}
+      className={`truncate rounded-md border px-1 ${style.className} ${kind === "done" ? "line-through" : ""}`}
+    >
+      {prefix}
+      {todo.title}
+    </span>
+  );
+}
+
+// --- Archive -------------------------------------------------------------
+/** Days of history rendered at once; older ones load on demand. */
+const ARCHIVE_PAGE_DAYS = 30;
+
+function monthLabel(key) {
+  const [year, month] = key.split("-").map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString([], { month: "long", year: "numeric" });
+}
+
+function ArchiveView({ todos, projects, now, onRestore, onPurge }) {
+  const [query, setQuery] = useState("");
+  const [month, setMonth] = useState("all");
+  const [pageDays, setPageDays] = useState(ARCHIVE_PAGE_DAYS);
+  const [confirmPurge, setConfirmPurge] = useState(false);
+
+  const archived = useMemo(() => todos.filter((t) => t.archivedAt != null), [todos]);
+  const months = useMemo(() => archiveMonths(archived), [archived]);
+  const parsed = useMemo(() => parseQuery(query), [query]);
+  const shown = useMemo(() => {
+    const matches = compileQuery(parsed);
+    return archived.filter(
+      (t) => (month === "all" || monthKey(t.completedAt ?? t.archivedAt) === month) && matches(t, { now, projects })
+    );
+  }, [archived, parsed, month, now, projects]);
+  const days = useMemo(() => archiveDays(shown), [shown]);
+  const totalMs = shown.reduce((acc, t) => acc + liveElapsed(t, now), 0);
+  const ids = shown.map((t) => t.id);
+
+  useEffect(() => {
+    setPageDays(ARCHIVE_PAGE_DAYS);
+    setConfirmPurge(false);
+  }, [query, month]);
+
+  const dayLabel = (day) =>
+    new Date(day).toLocaleDateString([], { weekday: "short", year: "numeric", month: "short", day: "numeric" });
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="rounded-2xl border bg-white p-4 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold text-indigo-700">Archive</h2>
+          <span className="text-sm text-slate-500">
+            {shown.length} {shown.length === 1 ? "task" : "tasks"} · <span className="font-mono">{msToHMS(totalMs)}</span>
+          </span>
+        </div>
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search the archive… (tag:acme time:>1h)"
+            title={parsed.errors.length ? `Ignored: ${parsed.errors.join(" ")}` : "Same filters as the task search"}
+            className={`min-w-0 flex-1 rounded-xl border bg-white px-3 py-1.5 text-sm ${
+              parsed.errors.length ? "ring-2 ring-amber-300" : ""
+            }`}
+          />
+          <select
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            aria-label="Month"
+            className="rounded-xl border bg-white px-2 py-1.5 text-sm"
+          >
+            <option value="all">All months</option>
+            {months.map((m) => (
+              <option key={m} value={m}>
+                {monthLabel(m)}
+              </option>
+            ))}
+          </select>
+          {shown.length > 0 && (
+            <>
+              <IconButton title="Restore every task shown to Active" onClick={() => onRestore(ids)}>
+                Restore shown
+              </IconButton>
+              <IconButton title="Delete every task shown for good" onClick={() => setConfirmPurge(true)}>
+                Delete shown…
+              </IconButton>
+            </>
+          )}
+        </div>
+        {confirmPurge && (
+          <div className="mt-3 flex flex-wrap items-center gap-3 rounded-xl border border-red-300 bg-red-50 p-2 text-sm">
+            <span>
+              Delete {shown.length} archived {shown.length === 1 ? "task" : "tasks"} permanently? Their time leaves
+              stats and reports too.
+            </span>
+            <button
+              onClick={() => {
+                onPurge(ids);
+                setConfirmPurge(false);
+              }}
+              className="rounded-xl bg-red-600 px-3 py-1 text-white hover:opacity-90"
+            >
+              Delete
+            </button>
+            <TextButton onClick={() => setConfirmPurge(false)}>Cancel</TextButton>
+          </div>
+        )}
+      </div>
+
+      {days.length === 0 ? (
+        <div className="rounded-2xl border bg-white p-4 text-sm text-slate-500">
+          {archived.length ? "Nothing in the archive matches." : "Nothing archived yet. Clear completed tasks to move them here."}
+        </div>
+      ) : (
+        days.slice(0, pageDays).map((d) => (
+          <section key={d.day}>
+            <h3 className="mb-2 flex items-baseline justify-between text-sm font-medium text-slate-600">
+              <span>{dayLabel(d.day)}</span>
+              <span className="font-mono text-xs">{msToHMS(d.todos.reduce((acc, t) => acc + liveElapsed(t, now), 0))}</span>
+            </h3>
+            <div className="flex flex-col gap-2">
+              {d.todos.map((t) => (
+                <div
+                  key={t.id}
+                  className="grid grid-cols-1 items-center gap-2 rounded-2xl border bg-white p-3 shadow-sm md:grid-cols-12"
+                >
+                  <div className="md:col-span-7">
+                    <h4 className="font-medium">{t.title}</h4>
+                    <TodoLabels todo={t} projects={projects} onTagClick={(tag) => setQuery(`tag:${tag}`)} />
+                  </div>
+                  <div className="md:col-span-2 font-mono text-sm">{msToHMS(liveElapsed(t, now))}</div>
+                  <div className="md:col-span-3 flex items-center justify-end gap-2">
+                    <IconButton title="Restore to Active" onClick={() => onRestore([t.id])}>
+                      Restore
+                    </IconButton>
+                    <IconButton title="Delete for good" onClick={() => onPurge([t.id])}>
+                      Delete
+                    </IconButton>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        ))
+      )}
+      {days.length > pageDays && (
+        <div className="text-center">
+          <TextButton onClick={() => setPageDays((n) => n + ARCHIVE_PAGE_DAYS)}>
+            Show {Math.min(ARCHIVE_PAGE_DAYS, days.length - pageDays)} older days
+          </TextButton>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// --- Projects Card -------------------------------------------------------
+function ProjectsCard({ projects, todos, onAdd, onRename, onRemove }) {
+  const [name, setName] = useState("");
+
+  function submit(e) {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onAdd(name);
+    setName("");
+  }
+
+  return (
+    <div className="mt-6 rounded-2xl border bg-white p-4 shadow-sm">
+      <h3 className="text-base font-semibold">Projects</h3>
+      <div className="mt-3 flex flex-col gap-2">
+        {projects.map((p) => (
+          <ProjectEntry
+            key={p.id}
+            project={p}
+            count={todos.filter((t) => t.projectId === p.id && !t.completed).length}
+            onRename={(next) => onRename(p.id, next)}
+            onRemove={() => onRemove(p.id)}
+          />
+        ))}
+      </div>
+      <form onSubmit={submit} className="mt-3 flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="New project…"
+          className="min-w-0 flex-1 rounded-xl border bg-white px-3 py-1.5 text-sm"
+        />
+        <button type="submit" className="rounded-xl bg-slate-900 px-3 py-1.5 text-sm text-white hover:opacity-90">
+          Add
+        </button>
+      </form>
+    </div>
+  );
+}
+
+function ProjectEntry({ project, count, onRename, onRemove }) {
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(project.name);
+
+  function save() {
+    if (name.trim()) onRename(name);
+    setEditing(false);
+  }
+
+  return editing ? (
+    <div className="flex items-center gap-2">
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => e.key === "Enter" && save()}
+        className="min-w-0 flex-1 rounded-xl border px-2 py-1 text-sm"
+        autoFocus
+      />
+      <TextButton onClick={save}>Save</TextButton>
+    </div>
+  ) : (
+    <div className="flex items-center justify-between gap-2 text-sm">
+      <span className="truncate">
+        {project.name} <span className="text-slate-400">({count})</span>
+      </span>
+      <span className="flex shrink-0 gap-2">
+        <TextButton onClick={() => { setName(project.name); setEditing(true); }}>Rename</TextButton>
+        <TextButton onClick={onRemove}>Delete</TextButton>
+      </span>
+    </div>
+  );
+}
+
+// --- Templates Card ------------------------------------------------------
+function TemplatesCard({ templates, projects, onUpdate, onRemove }) {
+  return (
+    <div className="mt-6 rounded-2xl border bg-white p-4 shadow-sm">
+      <h3 className="text-base font-semibold">Templates</h3>
+      {templates.length === 0 ? (
+        <p className="mt-2 text-sm text-slate-500">None yet. Use ⧉ on a task to save its shape as a template.</p>
+      ) : (
+        <div className="mt-3 flex flex-col gap-2">
+          {templates.map((t) => (
+            <TemplateEntry
+              key={t.id}
+              template={t}
+              projects={projects}
+              onUpdate={(patch) => onUpdate(t.id, patch)}
+              onRemove={() => onRemove(t.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TemplateEntry({ template, projects, onUpdate, onRemove }) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(null);
+
+  function edit() {
+    setDraft({
+      name: template.name,
+      title: template.title,
+      notes: template.notes,
+      alerts: template.alerts,
+      estimate: template.estimateMinutes ? formatDuration(template.estimateMinutes) : "",
+      projectId: template.projectId ?? "",
+      tags: formatTags(template.tags),
+      priority: template.priority ?? "",
+      subtasks: template.subtasks.join("\n"),
+    });
+    setEditing(true);
+  }
+
+  function save() {
+    onUpdate({
+      name: draft.name.trim() || template.name,
+      title: draft.title,
+      notes: draft.notes,
+      alerts: sortThresholds(draft.alerts.filter((a) => a.minutes > 0)),
+      estimateMinutes: parseDuration(draft.estimate),
+      projectId: draft.projectId || null,
+      tags: parseTags(draft.tags),
+      priority: draft.priority || null,
+      subtasks: draft.subtasks
+        .split("\n")
+        .map((x) => x.trim())
+        .filter(Boolean),
+    });
+    setEditing(false);
+  }
+
+  const set = (key) => (value) => setDraft((d) => ({ ...d, [key]: value }));
+
+  if (!editing) {
+    return (
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="min-w-0">
+          <span className="block truncate">{template.name}</span>
+          <span className="block truncate text-xs text-slate-400" title={fillPlaceholders(template.title)}>
+            {template.title}
+          </span>
+        </span>
+        <span className="flex shrink-0 gap-2">
+          <TextButton onClick={edit}>Edit</TextButton>
+          <TextButton onClick={onRemove}>Delete</TextButton>
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2 rounded-xl border p-2 text-sm">
+      <input
+        value={draft.name}
+        onChange={(e) => set("name")(e.target.value)}
+        placeholder="Template name"
+        aria-label="Template name"
+        className="rounded-xl border px-2 py-1 font-medium"
+        autoFocus
+      />
+      <input
+        value={draft.title}
+        onChange={(e) => set("title")(e.target.value)}
+        placeholder="Title, e.g. Standup {weekday}"
+        aria-label="Title"
+        className="rounded-xl border px-2 py-1"
+      />
+      <textarea
+        value={draft.notes}
+        onChange={(e) => set("notes")(e.target.value)}
+        placeholder="Notes"
+        aria-label="Notes"
+        rows={3}
+        className="rounded-xl border px-2 py-1"
+      />
+      <p className="text-xs text-slate-500">
+        Placeholders: {Object.keys(PLACEHOLDERS).map((k) => `{${k}}`).join(" ")}. Today the title reads “
+        {fillPlaceholders(draft.title)}”.
+      </p>
+      <ThresholdEditor value={draft.alerts} onChange={set("alerts")} />
+      <div className="grid grid-cols-2 gap-2">
+        <ProjectSelect
+          projects={projects}
+          value={draft.projectId}
+          onChange={set("projectId")}
+          className="rounded-xl border bg-white px-2 py-1"
+        />
+        <PrioritySelect value={draft.priority} onChange={set("priority")} className="rounded-xl border bg-white px-2 py-1" />
+        <input
+          value={draft.tags}
+          onChange={(e) => set("tags")(e.target.value)}
+          placeholder="Tags"
+          aria-label="Tags"
+          className="rounded-xl border px-2 py-1"
+        />
+        <input
+          value={draft.estimate}
+          onChange={(e) => set("estimate")(e.target.value)}
+          placeholder="Estimate"
+          aria-label="Estimate"
+          className={`rounded-xl border px-2 py-1 ${
+            draft.estimate.trim() && parseDuration(draft.estimate) == null ? "border-red-400" : ""
+          }`}
+        />
+      </div>
+      <textarea
+        value={draft.subtasks}
+        onChange={(e) => set("subtasks")(e.target.value)}
+        placeholder="Subtasks, one per line"
+        aria-label="Subtasks"
+        rows={2}
+        className="rounded-xl border px-2 py-1"
+      />
+      <div className="flex justify-end gap-3">
+        <TextButton onClick={() => setEditing(false)}>Cancel</TextButton>
+        <TextButton onClick={save}>Save</TextButton>
+      </div>
+    </div>
+  );
+}
+
+// --- Focus Card ----------------------------------------------------------
+function FocusCard({ settings, onChange }) {
+  const fields = [
+    ["workMin", "Focus (min)"],
+    ["shortMin", "Short break (min)"],
+    ["longMin", "Long break (min)"],
+    ["longEvery", "Long break every"],
+  ];
+  return (
+    <div className="mt-6 rounded-2xl border bg-white p-4 shadow-sm">
+      <h3 className="text-base font-semibold">Focus mode</h3>
+      <div className="mt-3 grid grid-cols-2 gap-2">
+        {fields.map(([key, label]) => (
+          <label key={key} className="flex flex-col gap-1 text-xs text-slate-500">
+            {label}
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={settings[key]}
+              onChange={(e) => {
+                const n = Math.round(Number(e.target.value));
+                if (n >= 1) onChange({ ...settings, [key]: n });
+              }}
+              className="rounded-xl border bg-white px-2 py-1 text-sm text-slate-800"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// --- Idle time -----------------------------------------------------------
+function IdleCard({ minutes, onChange }) {
+  return (
+    <div className="mt-6 rounded-2xl border bg-white p-4 shadow-sm">
+      <h3 className="text-base font-semibold">Idle time</h3>
+      <label className="mt-3 flex flex-col gap-1 text-xs text-slate-500">
+        Ask about running timers after idle (min, 0 = never)
+        <input
+          type="number"
+          min={0}
+          step={1}
+          value={minutes}
+          onChange={(e) => {
+            const n = Math.round(Number(e.target.value));
+            if (n >= 0) onChange(n);
+          }}
+          className="rounded-xl border bg-white px-2 py-1 text-sm text-slate-800"
+        />
+      </label>
+    </div>
+  );
+}
+
+function IdleDialog({ prompt, todos, onResolve }) {
+  const { since, at } = prompt;
+  const time = (ms) => new Date(ms).toLocaleString([], { weekday: "short", hour: "2-digit", minute: "2-digit" });
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center bg-slate-900/40 p-4">
+      <div className="w-full max-w-md rounded-2xl border bg-white p-4 shadow-lg">
+        <h3 className="text-base font-semibold">Welcome back</h3>
+        <p className="mt-1 text-sm text-slate-600">
+          You were away from {time(since)} to {time(at)} ({msToHMS(at - since)}). These timers kept running:
+        </p>
+        <ul className="mt-2 flex flex-col gap-1 text-sm">
+          {todos.map((t) => (
+            <li key={t.id} className="truncate">
+              • {t.title}
+            </li>
+          ))}
+        </ul>
+        <div className="mt-4 flex flex-col gap-2">
+          <button
+            onClick={() => onResolve("discard")}
+            className="rounded-xl bg-slate-900 px-4 py-2 text-sm text-white hover:opacity-90"
+          >
+            Discard the idle time and keep running
+          </button>
+          <button onClick={() => onResolve("stop")} className="rounded-xl border px-4 py-2 text-sm hover:bg-slate-50">
+            Stop the timers at {time(since)}
+          </button>
+          <button onClick={() => onResolve("keep")} className="rounded-xl border px-4 py-2 text-sm hover:bg-slate-50">
+            Keep the time
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// --- Data Card -----------------------------------------------------------
+function DataCard({ onExport, onImport }) {
+  const fileRef = useRef(null);
+
+  return (
+    <div className="mt-6 rounded-2xl border bg-white p-4 shadow-sm">
+      <h3 className="text-base font-semibold">Backup</h3>
+      <p className="mt-1 text-xs text-slate-500">
+        JSON keeps everything; CSV opens in spreadsheets.
+      </p>
+      <div className="mt-3 flex flex-wrap gap-2">
+        <IconButton title="Export as JSON" onClick={() => onExport("json")}>Export JSON</IconButton>
+        <IconButton title="Export as CSV" onClick={() => onExport("csv")}>Export CSV</IconButton>
+        <IconButton title="Import a JSON or CSV export" onClick={() => fileRef.current?.click()}>
+          Import…
+        </IconButton>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) onImport(file);
+          }}
+        />
+      </div>
+    </div>
+  );
+}
+
+// --- Storage & sync ------------------------------------------------------
+const SYNC_OFF = { state: "off", at: null, pending: 0 };
+
+function syncStatusText(status) {
+  const pending = status.pending ? ` · ${status.pending} ${status.pending === 1 ? "change" : "changes"} to send` : "";
+  const time = status.at ? new Date(status.at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }) : "";
+  const last = time ? `last synced ${time}` : "";
+  switch (status.state) {
+    case "syncing":
+      return `Syncing…${pending}`;
+    case "synced":
+      return `Synced ${time}${pending}`;
+    case "offline":
+      return `Offline; changes are kept and sent when the server is reachable${pending}`;
+    case "other-tab":
+      return `Another open tab syncs this list${last ? `; ${last}` : ""}${pending}`;
+    case "error":
+      return `Sync failed: ${status.error}${last ? ` (${last})` : ""}${pending}`;
+    default:
+      return "Not syncing. Everything stays in this browser.";
+  }
+}
+
+function SyncCard({ storage, settings, status, onStorage, onChange, onSyncNow }) {
+  const [draft, setDraft] = useState(settings);
+  useEffect(() => setDraft(settings), [settings]);
+  const dirty = draft.url !== settings.url || draft.token !== settings.token;
+
+  return (
+    <div className="mt-6 rounded-2xl border bg-white p-4 shadow-sm">
+      <h3 className="text-base font-semibold">Storage & sync</h3>
+      <label className="mt-3 flex flex-col gap-1 text-xs text-slate-500">
+        Keep tasks in
+        <select
+          value={storage}
+          onChange={(e) => onStorage(e.target.value)}
+          className="rounded-xl border bg-white px-2 py-1 text-sm text-slate-800"
+        >
+          {Object.entries(STORAGE_ADAPTERS).map(([name, a]) => (
+            <option key={name} value={name}>
+              {a.label}
+            </option>
+          ))}
+        </select>
+        <span>Other open tabs switch when reloaded.</span>
+      </label>
+      <form
+        className="mt-3 flex flex-col gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          onChange(normalizeSyncSettings(draft));
+        }}
+      >
+        <label className="flex flex-col gap-1 text-xs text-slate-500">
+          Sync server URL (optional)
+          <input
+            type="url"
+            value={draft.url}
+            onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+            placeholder="https://todo.example.com"
+            className="rounded-xl border bg-white px-2 py-1 text-sm text-slate-800"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-500">
+          Access token
+          <input
+            type="password"
+            value={draft.token}
+            onChange={(e) => setDraft({ ...draft, token: e.target.value })}
+            className="rounded-xl border bg-white px-2 py-1 text-sm text-slate-800"
+          />
+        </label>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="submit"
+            disabled={!dirty}
+            className="rounded-xl border px-3 py-1 text-sm hover:bg-indigo-50 disabled:opacity-40"
+          >
+            Save
+          </button>
+          {settings.url && (
+            <button
+              type="button"
+              title="Sync with the server now"
+              onClick={onSyncNow}
+              disabled={status.state === "syncing"}
+              className="rounded-xl border px-3 py-1 text-sm hover:bg-indigo-50 disabled:opacity-40"
+            >
+              Sync now
+            </button>
+          )}
+        </div>
+      </form>
+      <p className={`mt-2 text-xs ${status.state === "error" ? "text-rose-600" : "text-slate-500"}`}>
+        {syncStatusText(status)}
+      </p>
+    </div>
+  );
+}
+
+// --- Import Dialog -------------------------------------------------------
+function ImportDialog({ local, pending, onApply, onCancel }) {
+  const [mode, setMode] = useState("merge");
+  const plan = useMemo(() => planImport(local, pending.todos), [local, pending]);
+  const [choices, setChoices] = useState({});
+
+  function chooseAll(side) {
+    setChoices(Object.fromEntries(plan.conflicts.map((c) => [c.local.id, side])));
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center bg-slate-900/40 p-4">
+      <div className="flex max-h-[90vh] w-full max-w-2xl flex-col rounded-2xl border bg-white p-4 shadow-lg">
+        <h3 className="text-base font-semibold">Import “{pending.fileName}”</h3>
+        <p className="mt-1 text-sm text-slate-600">
+          {pending.todos.length} {pending.todos.length === 1 ? "task" : "tasks"} in file
+          {pending.templates.length
+            ? `, ${pending.templates.length} ${pending.templates.length === 1 ? "template" : "templates"}`
+            : ""}
+          {pending.rejected ? `, ${pending.rejected} invalid skipped` : ""}.
+        </p>
+
+        <div className="mt-3 flex flex-col gap-1 text-sm">
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={mode === "merge"} onChange={() => setMode("merge")} />
+            Merge by id: add {plan.added.length} new, {plan.conflicts.length} in conflict,{" "}
+            {plan.unchanged} already identical
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={mode === "replace"} onChange={() => setMode("replace")} />
+            Replace: discard the {local.length} local {local.length === 1 ? "task" : "tasks"}
+          </label>
+        </div>
+
+        {mode === "merge" && plan.conflicts.length > 0 && (
+          <div className="mt-3 flex min-h-0 flex-col">
+            <div className="mb-2 flex items-center justify-between">
+              <h4 className="text-sm font-medium text-slate-700">Conflicts</h4>
+              <div className="flex gap-3">
+                <TextButton onClick={() => chooseAll("local")}>Keep all local</TextButton>
+                <TextButton onClick={() => chooseAll("imported")}>Take all imported</TextButton>
+              </div>
+            </div>
+            <div className="flex flex-col gap-2 overflow-y-auto">
+              {plan.conflicts.map(({ local: mine, imported }) => {
+                const choice = choices[mine.id] ?? "local";
+                const pick = (side) => setChoices((c) => ({ ...c, [mine.id]: side }));
+                return (
+                  <div key={mine.id} className="grid grid-cols-2 gap-2 rounded-xl border bg-slate-50 p-2 text-sm">
+                    {[
+                      ["local", "Local", mine],
+                      ["imported", "Imported", imported],
+                    ].map(([side, label, t]) => (
+                      <label
+                        key={side}
+                        className={`flex cursor-pointer flex-col gap-1 rounded-xl border bg-white p-2 ${
+                          choice === side ? "ring-2 ring-indigo-400" : ""
+                        }`}
+                      >
+                        <span className="flex items-center gap-2 text-xs text-slate-500">
+                          <input type="radio" checked={choice === side} onChange={() => pick(side)} />
+                          {label}
+                        </span>
+                        <span className="font-medium">{t.title}</span>
+                        <span className="font-mono text-xs">
+                          {msToHMS(t.elapsedMs)} · {t.completed ? "Done" : "Active"}
+                          {t.alerts?.length ? ` · Alerts ${t.alerts.map((a) => formatDuration(a.minutes)).join(", ")}` : ""}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <div className="mt-4 flex justify-end gap-2">
+          <IconButton title="Cancel import" onClick={onCancel}>Cancel</IconButton>
+          <IconButton
+            title="Apply import"
+            onClick={() => onApply(mode, choices)}
+            className="bg-slate-900 text-white"
+          >
+            {mode === "replace" ? "Replace list" : "Import"}
+          </IconButton>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function Stat({ label, value, mono = false }) {
+  return (
+    <div className="rounded-xl border bg-slate-50 p-3">
+      <div className="text-xs text-slate-500">{label}</div>
+      <div className={`${mono ? "font-mono" : "font-semibold"} text-lg`}>{value}</div>
+    </div>
+  );
+}
+
+// --- Inline self-tests (dev only) ---------------------------------------
+(function runSelfTests() {
+  if (typeof window === "undefined") return; // don't run in SSR
+  if (window.__DO_TODO_TESTED__) return;
+  window.__DO_TODO_TESTED__ = true;
+
+  const tests = [];
+  function assertEqual(name, got, expected) {
+    const pass = got === expected;
+    tests.push({ name, pass, got, expected });
+  }
+  function assert(name, cond) {
+    const pass = Boolean(cond);
+    tests.push({ name, pass, got: cond, expected: true });
+  }
+
+  // msToHMS tests (existing)
+  assertEqual("msToHMS 0", msToHMS(0), "00:00:00");
+  assertEqual("msToHMS 1s", msToHMS(1000), "00:00:01");
+  assertEqual("msToHMS 61s", msToHMS(61_000), "00:01:01");
+  assertEqual("msToHMS 3661s", msToHMS(3_661_000), "01:01:01");
+
+  // Additional tests
+  assertEqual("msToHMS negative clamps to zero", msToHMS(-1000), "00:00:00");
+  assertEqual("msToHMS 24h+", msToHMS(24 * 3600 * 1000 + 42 * 1000), "24:00:42");
+
+  // session log
+  const s1 = makeSession(0, 60_000);
+  const s2 = makeSession(120_000, 180_000);
+  assertEqual("sumSessions adds durations", sumSessions([s1, s2]), 120_000);
+  const halves = splitSession([s1], s1.id);
+  assertEqual("splitSession yields two sessions", halves.length, 2);
+  assertEqual("splitSession keeps the total", sumSessions(halves), 60_000);
+  assertEqual(
+    "closeRun logs the open run",
+    closeRun({ running: true, startedAt: 1000, sessions: [] }, 4000).elapsedMs,
+    3000
+  );
+  assertEqual(
+    "ensureSessions keeps legacy elapsedMs",
+    ensureSessions({ createdAt: 0, elapsedMs: 5000 }).elapsedMs,
+    5000
+  );
+
+  // storage migrations
+  const migrated = migratePayload([
+    { id: "a", title: "A", notes: "", completed: false, completedAt: null, createdAt: 1, running: false, elapsedMs: 2000, startedAt: null, warningMinutes: null, warned: false },
+    { title: "no id", createdAt: 1 },
+  ]);
+  assertEqual("migratePayload keeps valid v1 records", migrated.todos.length, 1);
+  assertEqual("migratePayload adds sessions to v1 records", migrated.todos[0].elapsedMs, 2000);
+  assertEqual("migratePayload quarantines corrupt records", migrated.quarantined.length, 1);
+  const v10 = migratePayload({
+    version: 10,
+    todos: [{ ...migrated.todos[0], alerts: undefined, firedAlerts: undefined, warningMinutes: 30, warned: true }],
+  }).todos[0];
+  assertEqual(
+    "migratePayload turns a warning into a fired threshold",
+    `${v10.alerts.map((a) => `${a.minutes}:${a.action}`)}|${v10.firedAlerts.length}|${"warningMinutes" in v10}`,
+    "30:notify|1|false"
+  );
+  assert("validateTodo rejects a bad session", !validateTodo({ id: "x", title: "x", createdAt: 1, sessions: [{ id: "s", start: 5, end: 1 }] }).ok);
+
+  // export / import
+  const rows = parseCSV('a,"b ""c"", d"\r\n1,2');
+  assertEqual("parseCSV reads quoted cells", rows[0][1], 'b "c", d');
+  assertEqual("parseCSV reads every row", rows.length, 2);
+  const roundTrip = parseImport(exportCSV(migrated.todos));
+  assert("CSV export round-trips", roundTrip.ok && roundTrip.todos[0].elapsedMs === 2000);
+  const jsonTrip = parseImport(exportJSON(migrated.todos));
+  assert("JSON export round-trips", jsonTrip.ok && jsonTrip.todos[0].id === "a");
+  assertEqual(
+    "applyImport merge keeps local on conflict by default",
+    applyImport([{ id: "a", title: "local" }], [{ id: "a", title: "file" }], "merge")[0].title,
+    "local"
+  );
+
+  // multi-tab merge
+  const older = { id: "m", title: "old", updatedAt: 1 };
+  const newer = { id: "m", title: "new", updatedAt: 2 };
+  assertEqual("mergeRecords keeps the newer copy", mergeRecords([older], [newer])[0].title, "new");
+  const same = [newer];
+  assert("mergeRecords returns local when nothing changes", mergeRecords(same, [older]) === same);
+  assertEqual("mergeRecords drops tombstoned todos", mergeRecords([], [older], { m: 5 }).length, 0);
+  const stamped = stampChanges([older], [], {}, 10);
+  assertEqual("stampChanges records deletions", stamped.deleted.m, 10);
+
+  // tags
+  assertEqual("parseTags normalizes and dedupes", formatTags(parseTags("Acme, #acme, Q3 review,")), "acme, q3 review");
+
+  // due dates
+  const monday = new Date(2026, 9, 19, 9, 0).getTime(); // Mon 19 Oct 2026
+  assertEqual("dueGroup overdue", dueGroup(monday - 1, monday), "overdue");
+  assertEqual("dueGroup today", dueGroup(new Date(2026, 9, 19, 23, 0).getTime(), monday), "today");
+  assertEqual("dueGroup this week", dueGroup(new Date(2026, 9, 25, 12, 0).getTime(), monday), "week");
+  assertEqual("dueGroup later", dueGroup(new Date(2026, 9, 26, 0, 0).getTime(), monday), "later");
+  assertEqual("dueGroup no date", dueGroup(null, monday), "none");
+
+  // recurrence
+  const fri = new Date(2026, 9, 23, 17, 0).getTime(); // Fri 23 Oct 2026, 17:00
+  assertEqual(
+    "nextOccurrence weekdays skips the weekend",
+    new Date(nextOccurrence({ kind: "weekdays" }, fri, fri)).getDate(),
+    26
+  );
+  assertEqual(
+    "nextOccurrence keeps the time of day",
+    new Date(nextOccurrence({ kind: "daily" }, fri, fri)).getHours(),
+    17
+  );
+  assertEqual(
+    "nextOccurrence monthly clamps to short months",
+    new Date(nextOccurrence({ kind: "monthly", dayOfMonth: 31 }, new Date(2026, 10, 1).getTime())).getDate(),
+    30
+  );
+  assertEqual(
+    "nextDue skips missed occurrences",
+    new Date(nextDue({ due: fri, recurrence: { kind: "weekly", days: [5] } }, fri + 8 * 86_400_000)).getDate(),
+    6
+  );
+
+  // subtasks
+  let checklist = [makeSubtask("one"), makeSubtask("two")];
+  checklist = toggleSubtaskDone(checklist, checklist[0].id, 10);
+  assertEqual("subtaskProgress counts done items", subtaskProgress(checklist).done, 1);
+  checklist = moveSubtask(checklist, checklist[1].id, -1);
+  assertEqual("moveSubtask reorders", checklist[0].title, "two");
+  checklist = toggleSubtaskRun(checklist, checklist[0].id, 1000);
+  assertEqual("subtasksElapsed includes running items", subtasksElapsed(checklist, 4000), 3000);
+  assertEqual("completeSubtasks closes open items", openSubtasks(completeSubtasks(checklist, 5000)).length, 0);
+
+  // focus mode
+  const focusSettings = { workMin: 25, shortMin: 5, longMin: 15, longEvery: 2 };
+  const t0 = 1_000_000;
+  const focused = startFocus({ running: false, startedAt: null, sessions: [], elapsedMs: 0 }, focusSettings, t0);
+  assertEqual("advanceFocus waits for the phase to end", advanceFocus(focused, focusSettings, t0 + 1000), null);
+  const onBreak = advanceFocus(focused, focusSettings, t0 + 26 * 60_000).todo;
+  assertEqual("advanceFocus credits exactly one work phase", onBreak.elapsedMs, 25 * 60_000);
+  assertEqual("advanceFocus counts the pomodoro", onBreak.pomodoros, 1);
+  assert("advanceFocus stops the timer for the break", !onBreak.running && onBreak.focus.phase === "short");
+  const backToWork = advanceFocus(onBreak, focusSettings, t0 + 31 * 60_000).todo;
+  const secondBreak = advanceFocus(backToWork, focusSettings, t0 + 56 * 60_000).todo;
+  assertEqual("advanceFocus takes a long break every N pomodoros", secondBreak.focus.phase, "long");
+  // The app closed mid-phase and reopened 10 hours later: catch up as the
+  // focus effect does, one step per tick.
+  let reopened = focused;
+  for (let step; (step = advanceFocus(reopened, focusSettings, t0 + 10 * 3600_000)); ) reopened = step.todo;
+  assertEqual(
+    "advanceFocus doesn't credit phases missed while closed",
+    `${reopened.elapsedMs}|${reopened.pomodoros}|${reopened.running}|${reopened.focus}`,
+    `${25 * 60_000}|1|false|null`
+  );
+  assertEqual("msToClock formats countdowns", msToClock(65_000), "1:05");
+
+  // undo history
+  const h0 = [{ id: "a" }, { id: "b" }, { id: "c" }];
+  const h1 = h0.filter((t) => t.id !== "b");
+  const removal = diffCommand(h0, h1, "delete", "cmd");
+  assertEqual("diffCommand records only touched todos", removal.changes.length, 1);
+  assertEqual(
+    "applyChanges undo restores the original position",
+    applyChanges(h1, removal.changes, "before").map((t) => t.id).join(""),
+    "abc"
+  );
+  assertEqual("applyChanges redo reapplies", applyChanges(h0, removal.changes, "after").length, 2);
+
+  // reports
+  const r0 = new Date(2024, 0, 1, 23, 0).getTime(); // a Monday
+  const overnight = {
+    sessions: [{ id: "s", start: r0, end: r0 + 2 * 3600_000, note: "" }],
+    subtasks: [{ sessions: [{ id: "u", start: r0 + 3 * 3600_000, end: r0 + 4 * 3600_000, note: "" }] }],
+    completedAt: r0 + 4 * 3600_000,
+  };
+  const week = buildReport([overnight], weekStart(r0 + 86400_000), new Date(2024, 0, 8).getTime(), r0);
+  assertEqual("weekStart is Monday", weekStart(new Date(2024, 0, 7).getTime()), new Date(2024, 0, 1).getTime());
+  assertEqual("report splits at midnight", week.dayTotals.slice(0, 2).join(), `${3600_000},${2 * 3600_000}`);
+  assertEqual("report counts completions", week.dayCompleted[1], 1);
+  assertEqual("timesheet CSV totals row", timesheetCSV(week).split("\r\n").pop().split(",").pop(), "3.00");
+
+  // command palette
+  assertEqual("fuzzyScore matches in order", fuzzyScore("sto gro", "Stop timer on Groceries") !== null, true);
+  assertEqual("fuzzyScore rejects out of order", fuzzyScore("groceries stop", "Stop timer on Groceries"), null);
+  assertEqual(
+    "rankCommands prefers word starts",
+    rankCommands([{ label: "Clear completed" }, { label: "Export as CSV" }], "csv")[0].label,
+    "Export as CSV"
+  );
+
+  // quick add
+  const qaNow = new Date(2024, 0, 3, 10, 0).getTime(); // a Wednesday
+  const qa = parseQuickAdd("Write report #acme !high due:fri warn:45m,25m stop:1h ~2h due:someday", qaNow);
+  assertEqual("quick add keeps unknown tokens in the title", qa.title, "Write report due:someday");
+  assertEqual("quick add tags and priority", `${qa.tags.join()}|${qa.priority}`, "acme|high");
+  assertEqual("quick add due weekday", qa.due, new Date(2024, 0, 5, 23, 59).getTime());
+  assertEqual(
+    "quick add durations",
+    `${qa.alerts.map((a) => `${a.minutes}:${a.action}`)}|${qa.estimateMinutes}`,
+    "25:notify,45:notify,60:stop|120"
+  );
+  assertEqual("quick add due with time", parseQuickAdd("x due:tomorrow@5pm", qaNow).due, new Date(2024, 0, 4, 17, 0).getTime());
+  assertEqual("parseDuration 1h30m", parseDuration("1h30m"), 90);
+  assertEqual("parseDuration rejects junk", parseDuration("soon"), null);
+
+  // manual order
+  const o = [
+    { id: "a", order: 1, createdAt: 0 },
+    { id: "b", order: 2, createdAt: 0 },
+    { id: "c", order: 3, createdAt: 0 },
+  ];
+  const oMoved = reorder(o, o, "c", 0);
+  assertEqual("reorder moves only one todo", oMoved.filter((t, i) => t !== o[i]).length, 1);
+  assertEqual("reorder puts it first", oMoved.slice().sort(byOrder).map((t) => t.id).join(""), "cab");
+  assertEqual("reorder between neighbours", reorder(o, o, "a", 1).find((t) => t.id === "a").order, 2.5);
+  const tight = [
+    { id: "a", order: 1, createdAt: 0 },
+    { id: "b", order: 1 + Number.EPSILON, createdAt: 0 },
+    { id: "c", order: 3, createdAt: 0 },
+  ];
+  assertEqual(
+    "reorder renumbers when the gap runs out",
+    reorder(tight, tight, "c", 1).slice().sort(byOrder).map((t) => `${t.id}${t.order}`).join(),
+    "a0,c1,b2"
+  );
+  assertEqual("topOrder sorts first", topOrder(o), 0);
+
+  // estimates
+  const est = { estimateMinutes: 60 };
+  assertEqual("estimate near at 80%", estimateStatus(est, 48 * 60_000).level, "near");
+  assertEqual("estimate over past 100%", estimateStatus(est, 61 * 60_000).level, "over");
+  const acc = estimateAccuracy([
+    { estimateMs: 100, actualMs: 110 },
+    { estimateMs: 100, actualMs: 50 },
+  ]);
+  assertEqual("estimate accuracy on target", acc.onTarget, 0.5);
+  assertEqual("estimate accuracy bias", acc.bias, -0.2);
+
+  // idle time
+  const idleRun = { running: true, startedAt: 1_000_000, sessions: [], elapsedMs: 0, subtasks: [] };
+  const discarded = resolveIdle(idleRun, "discard", 1_060_000, 1_600_000);
+  assertEqual("discarding idle time keeps the time before", discarded.elapsedMs, 60_000);
+  assertEqual("discarding idle time restarts the run", discarded.running && discarded.startedAt, 1_600_000);
+  const stopped = resolveIdle(idleRun, "stop", 1_060_000, 1_600_000);
+  assertEqual("stopping at idle start", `${stopped.running}|${stopped.elapsedMs}`, "false|60000");
+  assertEqual("runningSince ignores runs started later", runningSince(idleRun, 900_000), false);
+
+  // alerts
+  const warnRun = {
+    id: "w",
+    title: "W",
+    running: true,
+    startedAt: 10_000,
+    elapsedMs: 60_000,
+    alerts: [makeThreshold(5), makeThreshold(10, "chime"), makeThreshold(15, "stop")],
+    firedAlerts: [],
+  };
+  assertEqual("warning alert due time", warningAlerts([warnRun])[0].at, 10_000 + 4 * 60_000);
+  assertEqual("only notify thresholds go to the worker", warningAlerts([warnRun]).length, 1);
+  assertEqual("no alert once fired", warningAlerts([{ ...warnRun, firedAlerts: [warnRun.alerts[0].id] }]).length, 0);
+  assertEqual("due thresholds in order", dueThresholds(warnRun, 12 * 60_000).map((a) => a.minutes).join(), "5,10");
+  assertEqual("next threshold", nextThreshold(warnRun, 12 * 60_000).action, "stop");
+  assertEqual("thresholds passed before a run are skipped", passedThresholds(warnRun.alerts, 10 * 60_000).length, 2);
+  assertEqual(
+    "thresholds CSV round trip",
+    formatThresholds(parseThresholds("1h stop, 25m, 45m chime, soon")),
+    "25m notify, 45m chime, 1h stop"
+  );
+
+  // markdown notes
+  const md = parseMarkdown("# Plan\n- [ ] call Bob\n- [x] send **deck**\n\n```\n- [ ] not a task\n```\nsee https://example.com.");
+  assertEqual("markdown blocks", md.map((b) => b.type).join(","), "heading,list,code,paragraph");
+  assertEqual("markdown task lines", md[1].items.map((i) => `${i.line}:${i.task}`).join(","), "1:false,2:true");
+  assertEqual("toggle task ticks only that line", toggleTask("- [ ] a\n- [ ] b", 1), "- [ ] a\n- [x] b");
+  assertEqual("toggle ignores non-task lines", toggleTask("plain", 0), "plain");
+  const noteTodo = { ...migrated.todos[0], notes: "- [ ] a" };
+  const tickedTodo = { ...noteTodo, notes: toggleTask(noteTodo.notes, 0) };
+  assertEqual(
+    "saving edits keeps a note task ticked since the row mounted",
+    editPatch(tickedTodo, editDraft(tickedTodo), 0).notes,
+    "- [x] a"
+  );
+  const bare = parseInline("see https://example.com.");
+  assertEqual("bare links drop trailing punctuation", `${bare[1].href}|${bare[2].text}`, "https://example.com|.");
+  assertEqual(
+    "unsafe link targets render as text",
+    JSON.stringify(parseInline("[x](javascript:alert)")),
+    '[{"type":"text","text":"x"}]'
+  );
+
+  // search queries
+  const qNow = new Date(2026, 9, 15, 12).getTime();
+  const qTodos = [
+    { id: "q1", title: "Weekly sync notes", notes: "agenda", tags: ["work"], completed: false, running: true, startedAt: qNow - 90 * 60_000, elapsedMs: 0, alerts: [makeThreshold(45)], createdAt: new Date(2026, 8, 20).getTime() },
+    { id: "q2", title: "Draft report", notes: "", tags: [], completed: true, completedAt: qNow, running: false, startedAt: null, elapsedMs: 10 * 60_000, alerts: [], createdAt: qNow },
+  ];
+  const runQuery = (text) =>
+    qTodos.filter((t) => compileQuery(parseQuery(text))(t, { now: qNow, projects: [] })).map((t) => t.id).join(",");
+  assertEqual("query is:running", runQuery("is:running"), "q1");
+  assertEqual("query negation", runQuery("-is:done"), "q1");
+  assertEqual("query warn comparison", runQuery("warn:>30"), "q1");
+  assertEqual("query tracked time", runQuery("time:>1h"), "q1");
+  assertEqual("query created before a day", runQuery("created:<2026-10-01"), "q1");
+  // Where the clocks change on March 8th, that day is 23 hours long.
+  const afterDst = { ...qTodos[1], createdAt: new Date(2026, 2, 9, 0, 30).getTime() };
+  assert("query day ends at the next midnight", !compileQuery(parseQuery("created:2026-03-08"))(afterDst, { now: qNow, projects: [] }));
+  assertEqual("query rejects rolled-over dates", parseQuery("created:2026-02-31").errors.join(), "created:2026-02-31");
+  assertEqual("query quoted phrase", runQuery('"sync notes" notes:agenda'), "q1");
+  assertEqual("query plain text", runQuery("report"), "q2");
+  assertEqual("query reports bad terms", parseQuery("warn:>soon is:done").errors.join(), "warn:>soon");
+  assertEqual("saved views drop nameless entries", normalizeViews([{ id: "v", name: " " }, { id: "w", name: "Mine" }]).length, 1);
+
+  // archive
+  const doneA = { id: "d1", completed: true, completedAt: new Date(2026, 9, 2, 15).getTime(), archivedAt: null };
+  const doneB = { id: "d2", completed: true, completedAt: new Date(2026, 9, 2, 9).getTime(), archivedAt: null };
+  const openC = { id: "o1", completed: false, completedAt: null, archivedAt: null };
+  const archivedList = archiveCompleted([doneA, doneB, openC], null, 5);
+  assertEqual("archive moves only completed todos", archivedList.map((t) => t.archivedAt).join(), "5,5,");
+  assertEqual("archive groups by completion day", archiveDays(archivedList.slice(0, 2)).map((d) => d.todos.length).join(), "2");
+  const restored = restoreArchived(archivedList, ["d1"])[0];
+  assertEqual("restore reopens the todo", `${restored.archivedAt}|${restored.completed}`, "null|false");
+  assertEqual("purge only deletes archived todos", purgeArchived(archivedList, ["d2", "o1"]).length, 2);
+
+  // templates
+  const tplNow = new Date(2026, 9, 19, 9, 5).getTime();
+  assertEqual(
+    "template placeholders fill in",
+    fillPlaceholders("Standup {date} w{week} {year} {nope}", tplNow),
+    "Standup 2026-10-19 w43 2026 {nope}"
+  );
+  const tplSource = { ...migrated.todos[0], title: "Review {date}", alerts: [makeThreshold(30)], subtasks: [{ title: "Read" }] };
+  const tpl = templateFromTodo(tplSource, "tpl1", tplNow);
+  assert("template validates", validateTemplate(tpl).ok);
+  const fromTpl = instantiateTemplate(tpl, [], tplNow);
+  assertEqual("template instantiates with placeholders", fromTpl.title, "Review 2026-10-19");
+  assert("template threshold ids are fresh", fromTpl.alerts[0].id !== tpl.alerts[0].id);
+  assertEqual("template subtasks are created", fromTpl.subtasks.map((s) => s.title).join(), "Read");
+  const tplBackup = parseImport(exportJSON(migrated.todos, [], [tpl]));
+  assert("templates are included in backups", tplBackup.ok && tplBackup.templates[0].id === "tpl1");
+
+  // multi-select and batch actions
+  const rowIds = ["r1", "r2", "r3", "r4"];
+  assertEqual("shift-click ticks a range", checkRange(["r1"], rowIds, "r1", "r3").join(), "r1,r2,r3");
+  assertEqual("shift-click from an unticked row unticks", checkRange(["r2", "r3"], rowIds, "r4", "r2").join(), "");
+  assertEqual("toggle unticks a ticked row", toggleChecked(["r1", "r2"], "r1").join(), "r2");
+  const batchRunning = { id: "b1", running: true, startedAt: 1000, elapsedMs: 0, sessions: [], subtasks: [], focus: null, completed: false, alerts: [makeThreshold(10, "stop")], firedAlerts: [] };
+  const batchIdle = { ...batchRunning, id: "b2", running: false, startedAt: null };
+  const stoppedBatch = stopTimers([batchRunning, batchIdle], ["b1", "b2"], 61_000);
+  assertEqual("batch stop closes the run", `${stoppedBatch[0].running}|${stoppedBatch[0].elapsedMs}`, "false|60000");
+  assert("batch stop leaves idle todos alone", stoppedBatch[1] === batchIdle);
+  const warnedBatch = setWarning([batchRunning], ["b1"], 1, 121_000)[0];
+  assertEqual("batch warning keeps other actions", warnedBatch.alerts.map((a) => a.action).join(), "notify,stop");
+  assertEqual("batch warning already passed mid-run doesn't fire", warnedBatch.firedAlerts.length, 1);
+  const doneBatch = [{ ...batchIdle, completed: true }];
+  assert("batch warning on completed todos changes nothing", setWarning(doneBatch, ["b2"], 1) === doneBatch);
+
+  // calendar
+  const calDay = new Date(2026, 9, 14).getTime();
+  const calTodo = {
+    id: "c1",
+    title: "Plan, review; ship",
+    notes: "",
+    tags: [],
+    completed: true,
+    completedAt: calDay + 20 * 3600_000,
+    due: calDay + 86400_000 + 9 * 3600_000,
+    sessions: [{ id: "s1", start: calDay - 3600_000, end: calDay + 3600_000, note: "" }],
+    subtasks: [],
+    running: false,
+    startedAt: null,
+    createdAt: calDay,
+    updatedAt: calDay + 20 * 3600_000,
+  };
+  const calWeek = calendarDays([calTodo], calendarRange("week", calDay), calDay);
+  assertEqual("calendar weeks start on Monday", new Date(calWeek[0].day).getDay(), 1);
+  assertEqual(
+    "calendar splits blocks at midnight",
+    calWeek.map((d) => d.blocks.length).join(""),
+    "0110000"
+  );
+  assertEqual("calendar places completed and due todos", `${calWeek[2].completed.length}|${calWeek[3].due.length}`, "1|1");
+  assertEqual("calendar month pages are whole weeks", calendarRange("month", calDay).length % 7, 0);
+  const ics = exportICS([calTodo], [], calDay);
+  assert("ics uses stable UIDs from todo ids", ics.includes("UID:c1-s1@do-todo") && ics.includes("UID:c1-due@do-todo"));
+  assert("ics escapes text", ics.includes("SUMMARY:Plan\\, review\\; ship"));
+  const longIcs = exportICS([{ ...calTodo, title: "x".repeat(200) }], [], calDay);
+  assert("ics folds long lines", longIcs.split("\r\n").every((l) => l.length <= 75) && longIcs.includes("\r\n x"));
+
+  // server sync
+  const accept = (r) => ({ ok: true, value: r });
+  const synced = { id: "s1", title: "Old", notes: "", updatedAt: 100 };
+  const syncShadow = { "todos:s1": { title: "Old", notes: "" } };
+  const edited = { ...synced, notes: "mine", updatedAt: 300 };
+  const pushed = diffChanges({ todos: [edited], projects: [], templates: [], deleted: {} }, syncShadow);
+  assertEqual("sync pushes only changed fields", JSON.stringify(pushed[0].fields), '{"notes":{"value":"mine","at":300}}');
+  const serverRec = (fields, deleted = null) => ({ collection: "todos", id: "s1", fields, deleted });
+  const pulled = mergeRemote(
+    [edited],
+    [serverRec({ title: { value: "Theirs", at: 200 }, notes: { value: "", at: 200 } })],
+    syncShadow,
+    "todos",
+    accept
+  ).list[0];
+  assertEqual("sync keeps newer local edit, takes other fields", `${pulled.title}|${pulled.notes}`, "Theirs|mine");
+  const gone = mergeRemote([synced], [serverRec({ title: { value: "Old", at: 100 } }, 150)], syncShadow, "todos", accept);
+  assertEqual("sync applies server deletion", `${gone.list.length}|${gone.removed}`, "0|s1");
+  // Deleted here while a round was in flight: the pull still carries it.
+  const inFlight = mergeRemote([], [serverRec({ title: { value: "Old", at: 100 } })], syncShadow, "todos", accept, {
+    s1: 250,
+  });
+  assertEqual("sync keeps a record deleted during a round deleted", inFlight.list.length, 0);
+  const editedAfter = mergeRemote([], [serverRec({ title: { value: "New", at: 300 } })], syncShadow, "todos", accept, {
+    s1: 250,
+  });
+  assertEqual("sync takes a record edited elsewhere after the local deletion", editedAfter.list.length, 1);
+  assertEqual(
+    "sync shadow forgets deleted records",
+    shadowAfterPull(syncShadow, [serverRec({ title: { value: "Old", at: 100 } }, 150)])["todos:s1"],
+    null
+  );
 
   // uid sanity (not equal sequentially)
   const a = uid();
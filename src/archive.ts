@@ -0,0 +1,62 @@
+// --- Archive -------------------------------------------------------------
+// Archiving keeps the Completed list short without losing history. An
+// archived todo stays in the list with `archivedAt` set, so it still counts
+// in stats and reports and merges and syncs like any other record; the task
+// views simply leave it out. Only purging deletes it.
+
+/** Archives every completed todo (or just those in `ids`). */
+export function archiveCompleted(todos, ids = null, now = Date.now()) {
+  let changed = false;
+  const next = todos.map((t) => {
+    if (!t.completed || t.archivedAt != null || (ids && !ids.includes(t.id))) return t;
+    changed = true;
+    return { ...t, archivedAt: now };
+  });
+  return changed ? next : todos;
+}
+
+/** Brings archived todos back as active ones. */
+export function restoreArchived(todos, ids) {
+  return todos.map((t) =>
+    ids.includes(t.id) && t.archivedAt != null
+      ? { ...t, archivedAt: null, completed: false, completedAt: null }
+      : t
+  );
+}
+
+export function purgeArchived(todos, ids) {
+  return todos.filter((t) => !(ids.includes(t.id) && t.archivedAt != null));
+}
+
+function dayKey(ts) {
+  const d = new Date(ts);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+}
+
+/**
+ * Archived todos grouped by the day they were completed, newest day first.
+ * @returns {Array<{ day: number, todos: Todo[] }>}
+ */
+export function archiveDays(archived) {
+  const days = new Map();
+  for (const t of archived) {
+    const day = dayKey(t.completedAt ?? t.archivedAt);
+    if (!days.has(day)) days.set(day, []);
+    days.get(day).push(t);
+  }
+  return Array.from(days, ([day, list]) => ({
+    day,
+    todos: list.sort((a, b) => (b.completedAt ?? 0) - (a.completedAt ?? 0)),
+  })).sort((a, b) => b.day - a.day);
+}
+
+/** "2026-10" keys of the months that have archived todos, newest first. */
+export function archiveMonths(archived) {
+  const months = new Set(archived.map((t) => monthKey(t.completedAt ?? t.archivedAt)));
+  return Array.from(months).sort().reverse();
+}
+
+export function monthKey(ts) {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
@@ -0,0 +1,197 @@
+import { daysBetween, weekStart } from "./reports";
+
+// --- Calendar ------------------------------------------------------------
+// Per day: the time worked on each todo as blocks (its session log, its
+// subtasks' logs and any run still going, split at midnight), the todos
+// completed that day and the ones due. The same data exports as an
+// iCalendar file whose UIDs come from todo and session ids, so importing a
+// newer export updates the events instead of duplicating them.
+
+/**
+ * @typedef CalendarBlock
+ * @property {Todo} todo
+ * @property {string} label
+ * @property {number} start
+ * @property {number} end
+ * @property {boolean} running
+ *
+ * @typedef CalendarDay
+ * @property {number} day // local midnight
+ * @property {CalendarBlock[]} blocks // by start time
+ * @property {Todo[]} completed
+ * @property {Todo[]} due
+ */
+
+function addDays(ms, days) {
+  const d = new Date(ms);
+  d.setDate(d.getDate() + days);
+  return d.getTime();
+}
+
+function monthStart(ms) {
+  const d = new Date(ms);
+  return new Date(d.getFullYear(), d.getMonth(), 1).getTime();
+}
+
+/** The days a week or month page shows; months are padded to whole weeks. */
+export function calendarRange(mode, anchor) {
+  if (mode === "week") {
+    const from = weekStart(anchor);
+    return daysBetween(from, addDays(from, 7));
+  }
+  const first = monthStart(anchor);
+  const d = new Date(first);
+  const last = new Date(d.getFullYear(), d.getMonth() + 1, 0).getTime();
+  return daysBetween(weekStart(first), addDays(weekStart(last), 7));
+}
+
+/** The anchor of the previous (-1) or next (+1) page. */
+export function shiftPeriod(mode, anchor, delta) {
+  if (mode === "week") return addDays(anchor, 7 * delta);
+  const d = new Date(monthStart(anchor));
+  d.setMonth(d.getMonth() + delta);
+  return d.getTime();
+}
+
+/** Every worked interval of a todo, labelled, with the open run marked. */
+function workIntervals(todo, now) {
+  const intervals = [];
+  const add = (item, label) => {
+    for (const s of item.sessions || []) intervals.push({ todo, label, start: s.start, end: s.end, running: false });
+    if (item.running && item.startedAt) intervals.push({ todo, label, start: item.startedAt, end: now, running: true });
+  };
+  add(todo, todo.title);
+  for (const sub of todo.subtasks || []) add(sub, `${todo.title} › ${sub.title}`);
+  return intervals;
+}
+
+/** @returns {CalendarDay[]} */
+export function calendarDays(todos, days, now = Date.now()) {
+  const byDay = days.map((day) => ({ day, blocks: [], completed: [], due: [] }));
+  const index = (ts) => {
+    for (let i = days.length - 1; i >= 0; i--) if (ts >= days[i]) return ts < addDays(days[i], 1) ? i : -1;
+    return -1;
+  };
+  for (const todo of todos) {
+    for (const w of workIntervals(todo, now)) {
+      byDay.forEach((d) => {
+        const start = Math.max(w.start, d.day);
+        const end = Math.min(w.end, addDays(d.day, 1));
+        if (end > start) d.blocks.push({ ...w, start, end });
+      });
+    }
+    if (todo.completed && todo.completedAt != null) byDay[index(todo.completedAt)]?.completed.push(todo);
+    if (todo.due != null) byDay[index(todo.due)]?.due.push(todo);
+  }
+  for (const d of byDay) {
+    d.blocks.sort((a, b) => a.start - b.start);
+    d.due.sort((a, b) => a.due - b.due);
+  }
+  return byDay;
+}
+
+// --- iCalendar export ----------------------------------------------------
+const ICS_DOMAIN = "do-todo";
+const encoder = new TextEncoder();
+
+function icsText(s) {
+  return String(s).replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function icsTime(ms) {
+  return new Date(ms).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Content lines are folded at 75 octets (RFC 5545 §3.1). */
+function fold(line) {
+  const parts = [];
+  let current = "";
+  let bytes = 0;
+  for (const ch of line) {
+    const n = encoder.encode(ch).length;
+    if (bytes + n > 75) {
+      parts.push(current);
+      current = " ";
+      bytes = 1;
+    }
+    current += ch;
+    bytes += n;
+  }
+  parts.push(current);
+  return parts.join("\r\n");
+}
+
+function event(todo, uid, fields, categories, now) {
+  return [
+    "BEGIN:VEVENT",
+    `UID:${uid}@${ICS_DOMAIN}`,
+    `DTSTAMP:${icsTime(now)}`,
+    `LAST-MODIFIED:${icsTime(todo.updatedAt ?? todo.createdAt)}`,
+    // Calendars apply a re-imported event only when its sequence went up.
+    `SEQUENCE:${Math.floor((todo.updatedAt ?? todo.createdAt) / 1000)}`,
+    ...fields,
+    ...(categories.length ? [`CATEGORIES:${categories.map(icsText).join(",")}`] : []),
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * An iCalendar file with one event per finished work session (subtasks
+ * included) and one per due date. Runs still going are left out until they
+ * stop, so an import never holds a half-finished block.
+ */
+export function exportICS(todos, projects = [], now = Date.now()) {
+  const names = new Map(projects.map((p) => [p.id, p.name]));
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Do Todo//Do Todo//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Do Todo",
+  ];
+  for (const t of todos) {
+    const categories = [names.get(t.projectId), ...(t.tags || [])].filter(Boolean);
+    const sessions = [
+      ...(t.sessions || []).map((s) => ({ s, uid: `${t.id}-${s.id}`, title: t.title })),
+      ...(t.subtasks || []).flatMap((sub) =>
+        (sub.sessions || []).map((s) => ({ s, uid: `${t.id}-${sub.id}-${s.id}`, title: `${t.title} › ${sub.title}` }))
+      ),
+    ];
+    for (const { s, uid, title } of sessions) {
+      lines.push(
+        ...event(
+          t,
+          uid,
+          [
+            `DTSTART:${icsTime(s.start)}`,
+            `DTEND:${icsTime(s.end)}`,
+            `SUMMARY:${icsText(title)}`,
+            ...(s.note ? [`DESCRIPTION:${icsText(s.note)}`] : []),
+            "TRANSP:OPAQUE",
+          ],
+          categories,
+          now
+        )
+      );
+    }
+    if (t.due != null) {
+      lines.push(
+        ...event(
+          t,
+          `${t.id}-due`,
+          [
+            `DTSTART:${icsTime(t.due)}`,
+            `SUMMARY:${icsText(`${t.completed ? "Done" : "Due"}: ${t.title}`)}`,
+            ...(t.notes ? [`DESCRIPTION:${icsText(t.notes)}`] : []),
+            "TRANSP:TRANSPARENT",
+          ],
+          categories,
+          now
+        )
+      );
+    }
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,57 @@
+// --- Estimates -----------------------------------------------------------
+// A todo may carry an estimate. While it runs, tracked time is shown against
+// it; once completed, the estimate and the final time stay on the record, so
+// the variance can be shown later and fed into the accuracy stats.
+
+/** Progress bars turn amber from this share of the estimate, red past it. */
+export const NEAR_ESTIMATE = 0.8;
+/** A finished todo counts as "on target" within this share of its estimate. */
+export const ON_TARGET = 0.2;
+
+export function estimateMs(todo) {
+  return todo.estimateMinutes ? todo.estimateMinutes * 60_000 : 0;
+}
+
+/**
+ * @returns {{ ratio: number, level: "ok"|"near"|"over" } | null} null without an estimate
+ */
+export function estimateStatus(todo, actualMs) {
+  const est = estimateMs(todo);
+  if (!est) return null;
+  const ratio = actualMs / est;
+  return { ratio, level: ratio > 1 ? "over" : ratio >= NEAR_ESTIMATE ? "near" : "ok" };
+}
+
+/** Actual minus estimated time; positive means it ran over. */
+export function variance(todo, actualMs) {
+  const est = estimateMs(todo);
+  return est ? actualMs - est : null;
+}
+
+/** The `n` most recently completed todos that had an estimate. */
+export function lastEstimated(todos, n) {
+  return todos
+    .filter((t) => t.completed && t.estimateMinutes && t.completedAt != null)
+    .sort((a, b) => b.completedAt - a.completedAt)
+    .slice(0, n);
+}
+
+/**
+ * Summarizes how estimates compared with the time actually tracked.
+ * @param {{ estimateMs: number, actualMs: number }[]} samples
+ * @returns {{ count: number, onTarget: number, meanError: number, bias: number, estimatedMs: number, actualMs: number } | null}
+ *   `meanError` is the mean of |actual − estimate| / estimate; `bias` the
+ *   signed mean (positive = tasks run over). Null without samples.
+ */
+export function estimateAccuracy(samples) {
+  if (!samples.length) return null;
+  const errors = samples.map((s) => (s.actualMs - s.estimateMs) / s.estimateMs);
+  return {
+    count: samples.length,
+    onTarget: errors.filter((e) => Math.abs(e) <= ON_TARGET).length / samples.length,
+    meanError: errors.reduce((a, e) => a + Math.abs(e), 0) / samples.length,
+    bias: errors.reduce((a, e) => a + e, 0) / samples.length,
+    estimatedMs: samples.reduce((a, s) => a + s.estimateMs, 0),
+    actualMs: samples.reduce((a, s) => a + s.actualMs, 0),
+  };
+}
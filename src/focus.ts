@@ -0,0 +1,100 @@
+import { closeRun } from "./sessions";
+
+// --- Focus mode (pomodoro) -----------------------------------------------
+// Focus mode drives a todo's ordinary run timer through work and break
+// phases. The timer runs only during work phases, so only work time lands in
+// the session log; each finished work phase counts one pomodoro.
+
+/**
+ * @typedef FocusState
+ * @property {"work"|"short"|"long"} phase
+ * @property {number} phaseStartedAt
+ * @property {number} endsAt
+ */
+
+export const DEFAULT_FOCUS_SETTINGS = { workMin: 25, shortMin: 5, longMin: 15, longEvery: 4 };
+
+export const PHASE_LABELS = { work: "Focus", short: "Short break", long: "Long break" };
+
+/** A phase that ended longer ago than this went unseen: the app was closed or asleep. */
+export const MISSED_PHASE_MS = 60_000;
+
+export function phaseMs(phase, settings) {
+  const min = phase === "work" ? settings.workMin : phase === "short" ? settings.shortMin : settings.longMin;
+  return min * 60 * 1000;
+}
+
+export function normalizeFocusSettings(s) {
+  const out = { ...DEFAULT_FOCUS_SETTINGS };
+  if (s && typeof s === "object") {
+    for (const key of Object.keys(out)) {
+      const n = Number(s[key]);
+      if (Number.isFinite(n) && n >= 1) out[key] = Math.round(n);
+    }
+  }
+  return out;
+}
+
+export function startFocus(todo, settings, now = Date.now()) {
+  return {
+    ...todo,
+    running: true,
+    startedAt: todo.running && todo.startedAt ? todo.startedAt : now,
+    focus: { phase: "work", phaseStartedAt: now, endsAt: now + phaseMs("work", settings) },
+  };
+}
+
+export function stopFocus(todo, now = Date.now()) {
+  return { ...closeRun(todo, now), focus: null };
+}
+
+/**
+ * Moves a todo whose phase has ended on to the next phase. Work phases are
+ * closed at their scheduled end, not when the app noticed, so a throttled
+ * background tab doesn't credit extra time. A break that ended unseen
+ * (see MISSED_PHASE_MS) leaves focus mode instead of starting work in the
+ * past, so a closed app never logs phases nobody worked.
+ * @returns {{ todo: Todo, finished: "work"|"short"|"long", missed?: boolean } | null} null when the phase is still running
+ */
+export function advanceFocus(todo, settings, now = Date.now()) {
+  const f = todo.focus;
+  if (!f || now < f.endsAt) return null;
+  if (f.phase === "work") {
+    const pomodoros = (todo.pomodoros || 0) + 1;
+    const phase = pomodoros % settings.longEvery === 0 ? "long" : "short";
+    return {
+      finished: "work",
+      todo: {
+        ...closeRun(todo, f.endsAt),
+        pomodoros,
+        focus: { phase, phaseStartedAt: f.endsAt, endsAt: f.endsAt + phaseMs(phase, settings) },
+      },
+    };
+  }
+  if (now - f.endsAt > MISSED_PHASE_MS) {
+    return { finished: f.phase, missed: true, todo: { ...todo, running: false, startedAt: null, focus: null } };
+  }
+  return {
+    finished: f.phase,
+    todo: {
+      ...todo,
+      running: true,
+      startedAt: f.endsAt,
+      focus: { phase: "work", phaseStartedAt: f.endsAt, endsAt: f.endsAt + phaseMs("work", settings) },
+    },
+  };
+}
+
+export function focusRemaining(todo, now) {
+  return todo.focus ? Math.max(0, todo.focus.endsAt - now) : 0;
+}
+
+export function validateFocus(f) {
+  return (
+    typeof f === "object" &&
+    f !== null &&
+    Object.keys(PHASE_LABELS).includes(f.phase) &&
+    Number.isFinite(f.phaseStartedAt) &&
+    Number.isFinite(f.endsAt)
+  );
+}
@@ -0,0 +1,64 @@
+// --- Undo / redo ---------------------------------------------------------
+// A command records, for every todo it touched, the todo before and after
+// (null when it didn't exist) and where it sat in the list. Undo and redo
+// put just those todos back, so changes made meanwhile to other todos (by
+// timers or another tab) survive.
+
+export const HISTORY_LIMIT = 100;
+
+/**
+ * @typedef Change
+ * @property {string} id
+ * @property {Todo|null} before
+ * @property {Todo|null} after
+ * @property {number} index // position in the list before the change
+ *
+ * @typedef Command
+ * @property {string} id
+ * @property {string} label
+ * @property {Change[]} changes
+ */
+
+export function diffCommand(prev, next, label, id) {
+  const before = new Map(prev.map((t, i) => [t.id, { todo: t, index: i }]));
+  const after = new Map(next.map((t, i) => [t.id, { todo: t, index: i }]));
+  const changes = [];
+  for (const [tid, b] of before) {
+    const a = after.get(tid);
+    if (!a || a.todo !== b.todo) changes.push({ id: tid, before: b.todo, after: a?.todo ?? null, index: b.index });
+  }
+  for (const [tid, a] of after) {
+    if (!before.has(tid)) changes.push({ id: tid, before: null, after: a.todo, index: a.index });
+  }
+  return { id, label, changes };
+}
+
+/** Puts each changed todo into its `side` state ("before" to undo, "after" to redo). */
+export function applyChanges(list, changes, side) {
+  let out = list.slice();
+  // Re-insert in index order so positions come back as they were.
+  const ordered = changes.slice().sort((a, b) => a.index - b.index);
+  for (const c of ordered) {
+    const target = c[side];
+    const i = out.findIndex((t) => t.id === c.id);
+    if (!target) {
+      if (i !== -1) out.splice(i, 1);
+    } else if (i !== -1) {
+      out[i] = target;
+    } else {
+      out.splice(Math.min(c.index, out.length), 0, target);
+    }
+  }
+  return out;
+}
+
+export function emptyHistory() {
+  return { past: [], future: [] };
+}
+
+/** Records a command; a re-run with the same id (React strict mode) replaces it. */
+export function pushCommand(history, cmd) {
+  if (!cmd.changes.length) return history;
+  const past = history.past.filter((c) => c.id !== cmd.id);
+  return { past: [...past, cmd].slice(-HISTORY_LIMIT), future: [] };
+}
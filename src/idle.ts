@@ -0,0 +1,126 @@
+import { stopFocus } from "./focus";
+import { closeRun } from "./sessions";
+
+// --- Idle detection ------------------------------------------------------
+// A running timer keeps counting while nobody is there. Each tab notes the
+// user's last activity (input, or the moment the page was hidden) and shares
+// it through localStorage, so working in one tab keeps the others from
+// calling the user idle. When someone comes back after a long enough gap —
+// or the machine wakes from sleep — the app asks what to do with the time.
+
+export const ACTIVITY_KEY = "do-todo-last-active";
+export const DEFAULT_IDLE_MINUTES = 10;
+/** Longer than any ticker interval, background throttling included. */
+const SLEEP_GAP_MS = 2 * 60_000;
+const CHECK_MS = 5000;
+/** How often activity is written to storage while the user is busy. */
+const SHARE_MS = 15_000;
+
+/** 0 turns idle detection off. */
+export function normalizeIdleMinutes(v) {
+  const n = Math.round(Number(v));
+  return Number.isFinite(n) && n >= 0 ? n : DEFAULT_IDLE_MINUTES;
+}
+
+export function readLastActive() {
+  const n = Number(localStorage.getItem(ACTIVITY_KEY));
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function shareLastActive(at) {
+  try {
+    if (at > (readLastActive() ?? 0)) localStorage.setItem(ACTIVITY_KEY, String(at));
+  } catch (_) {
+    // Sharing is best effort; other tabs may then ask about time spent here.
+  }
+}
+
+/**
+ * Watches for the user coming back after at least `idleMs` without activity.
+ * Calls `onReturn(since, now)` with the start of the idle period. Returns a
+ * cleanup function.
+ */
+export function watchActivity(idleMs, onReturn) {
+  let last = Date.now();
+  let shared = 0;
+  let lastCheck = Date.now();
+
+  function active() {
+    const now = Date.now();
+    const since = Math.max(last, readLastActive() ?? 0);
+    if (now - since >= idleMs) onReturn(since, now);
+    last = now;
+    if (now - shared >= SHARE_MS) {
+      shared = now;
+      shareLastActive(now);
+    }
+  }
+  function onVisibility() {
+    if (document.visibilityState === "visible") active();
+    else {
+      last = Date.now();
+      shareLastActive(last);
+    }
+  }
+  function check() {
+    const now = Date.now();
+    // A gap between checks means the machine slept; a visible page on wake
+    // most likely has someone in front of it.
+    if (now - lastCheck > SLEEP_GAP_MS && document.visibilityState === "visible") {
+      last = Math.min(last, lastCheck);
+      active();
+    }
+    lastCheck = now;
+  }
+
+  const events = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart"];
+  let throttle = 0;
+  const onInput = () => {
+    const now = Date.now();
+    if (now - throttle < 1000) return;
+    throttle = now;
+    active();
+  };
+  events.forEach((e) => window.addEventListener(e, onInput, { passive: true }));
+  document.addEventListener("visibilitychange", onVisibility);
+  const id = setInterval(check, CHECK_MS);
+  return () => {
+    events.forEach((e) => window.removeEventListener(e, onInput));
+    document.removeEventListener("visibilitychange", onVisibility);
+    clearInterval(id);
+    shareLastActive(last);
+  };
+}
+
+function runsDuring(item, since) {
+  return item.running && item.startedAt != null && item.startedAt < since;
+}
+
+/** Whether a todo (or one of its subtasks) was timing through `since`. */
+export function runningSince(todo, since) {
+  return runsDuring(todo, since) || (todo.subtasks || []).some((s) => runsDuring(s, since));
+}
+
+/** Keeps the time logged before `since` and restarts the run at `now`. */
+function discardRun(item, since, now) {
+  if (!item.running || !item.startedAt) return item;
+  const closed = item.startedAt < since ? closeRun(item, since) : item;
+  return { ...closed, running: true, startedAt: now };
+}
+
+function stopRun(item, since) {
+  return item.running ? closeRun(item, since) : item;
+}
+
+/**
+ * Applies the user's choice about an idle period to one todo.
+ * @param {"keep"|"discard"|"stop"} choice
+ */
+export function resolveIdle(todo, choice, since, now) {
+  if (choice === "keep") return todo;
+  const subtasks = (todo.subtasks || []).map((s) =>
+    choice === "discard" ? discardRun(s, since, now) : stopRun(s, since)
+  );
+  if (choice === "discard") return { ...discardRun(todo, since, now), subtasks };
+  return { ...(todo.focus ? stopFocus(todo, since) : stopRun(todo, since)), subtasks };
+}
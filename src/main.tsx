@@ -2,9 +2,12 @@ import React from "react";
 import ReactDOM from "react-dom/client";
 import "./index.css";
 import DoTodoApp from "./app";
+import { registerServiceWorker } from "./alerts";
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <DoTodoApp />
   </React.StrictMode>
 );
+
+registerServiceWorker();
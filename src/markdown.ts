@@ -0,0 +1,174 @@
+// --- Markdown notes ------------------------------------------------------
+// A small Markdown subset for todo notes: headings, paragraphs, lists (with
+// `- [ ]` checklists), quotes, fenced and inline code, emphasis and links.
+// Parsing produces plain data that the app renders as React elements, so
+// raw HTML in notes is shown as text and never injected. Links are kept only
+// for http(s) and mailto targets.
+
+/**
+ * @typedef ListItem
+ * @property {string} text
+ * @property {number} indent // nesting level, from leading spaces
+ * @property {boolean|null} task // checkbox state, null for a plain item
+ * @property {number} line // line index in the source, for toggling
+ *
+ * @typedef Block
+ * @property {"heading"|"paragraph"|"code"|"list"|"quote"|"rule"} type
+ * @property {string} [text]
+ * @property {number} [level] // heading: 1 … 6
+ * @property {string} [lang] // code
+ * @property {boolean} [ordered] // list
+ * @property {ListItem[]} [items] // list
+ *
+ * @typedef Inline
+ * @property {"text"|"code"|"strong"|"em"|"strike"|"link"} type
+ * @property {string} [text] // text, code
+ * @property {Inline[]} [children] // strong, em, strike, link
+ * @property {string} [href] // link
+ */
+
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const TASK_LINE = /^(\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\][\s\S]*)$/;
+
+/** @returns {Block[]} */
+export function parseMarkdown(text) {
+  const lines = (text || "").split("\n").map((l) => l.replace(/\r$/, ""));
+  const blocks = [];
+  let open = null; // the paragraph, list or quote that following lines may extend
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const body = [];
+      while (++i < lines.length && !(lines[i].trim().startsWith(fence[1]) && FENCE.test(lines[i]))) body.push(lines[i]);
+      blocks.push({ type: "code", lang: fence[2], text: body.join("\n") });
+      open = null;
+      continue;
+    }
+    if (!line.trim()) {
+      open = null;
+      continue;
+    }
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, text: heading[2] });
+      open = null;
+      continue;
+    }
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      open = null;
+      continue;
+    }
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      const ordered = /\d/.test(item[2]);
+      const task = TASK.exec(item[3]);
+      const entry = {
+        text: task ? task[2] : item[3],
+        indent: Math.floor(item[1].replace(/\t/g, "    ").length / 2),
+        task: task ? task[1] !== " " : null,
+        line: i,
+      };
+      if (open?.type === "list" && open.ordered === ordered) {
+        open.items.push(entry);
+      } else {
+        open = { type: "list", ordered, items: [entry] };
+        blocks.push(open);
+      }
+      continue;
+    }
+    const quote = QUOTE.exec(line);
+    if (quote) {
+      if (open?.type === "quote") {
+        open.text += "\n" + quote[1];
+      } else {
+        open = { type: "quote", text: quote[1] };
+        blocks.push(open);
+      }
+      continue;
+    }
+    // A plain line continues the open block: the last list item, the quote
+    // or the paragraph. Line breaks are kept; pasted notes rely on them.
+    if (open?.type === "list") {
+      const last = open.items[open.items.length - 1];
+      last.text += "\n" + line.trim();
+    } else if (open) {
+      open.text += "\n" + line;
+    } else {
+      open = { type: "paragraph", text: line };
+      blocks.push(open);
+    }
+  }
+  return blocks;
+}
+
+const INLINE = new RegExp(
+  [
+    /`([^`]+)`/.source, // 1 code
+    /\[([^\]]+)\]\(\s*([^)\s]+)\s*\)/.source, // 2 label, 3 url
+    /<((?:https?:\/\/|mailto:)[^\s>]+)>/.source, // 4 autolink
+    /((?:https?:\/\/|www\.)[^\s<>]*[^\s<>.,;:!?'")\]])/.source, // 5 bare url
+    /\*\*(.+?)\*\*|__(.+?)__/.source, // 6, 7 strong
+    /~~(.+?)~~/.source, // 8 strike
+    /\*([^*\s](?:[^*]*[^*\s])?)\*|\b_([^_\s](?:[^_]*[^_\s])?)_(?!\w)/.source, // 9, 10 em
+  ].join("|"),
+  "g"
+);
+
+/** Returns a link target that is safe to render, or null. */
+export function safeHref(url) {
+  const href = String(url || "").trim();
+  if (/^(https?:\/\/|mailto:)/i.test(href)) return href;
+  if (/^www\./i.test(href)) return `https://${href}`;
+  return null;
+}
+
+/** @returns {Inline[]} */
+export function parseInline(text) {
+  const out = [];
+  let last = 0;
+  const pushText = (s) => {
+    if (!s) return;
+    const prev = out[out.length - 1];
+    if (prev?.type === "text") prev.text += s;
+    else out.push({ type: "text", text: s });
+  };
+  for (const m of (text || "").matchAll(INLINE)) {
+    pushText(text.slice(last, m.index));
+    last = m.index + m[0].length;
+    if (m[1] != null) {
+      out.push({ type: "code", text: m[1] });
+    } else if (m[2] != null) {
+      const href = safeHref(m[3]);
+      if (href) out.push({ type: "link", href, children: parseInline(m[2]) });
+      else out.push(...parseInline(m[2]));
+    } else if (m[4] != null || m[5] != null) {
+      const url = m[4] ?? m[5];
+      out.push({ type: "link", href: safeHref(url), children: [{ type: "text", text: url }] });
+    } else if (m[6] != null || m[7] != null) {
+      out.push({ type: "strong", children: parseInline(m[6] ?? m[7]) });
+    } else if (m[8] != null) {
+      out.push({ type: "strike", children: parseInline(m[8]) });
+    } else {
+      out.push({ type: "em", children: parseInline(m[9] ?? m[10]) });
+    }
+  }
+  pushText((text || "").slice(last));
+  return out;
+}
+
+/** Ticks or unticks the checklist item on `line`; other text is left as it was. */
+export function toggleTask(text, line) {
+  const lines = (text || "").split("\n");
+  const m = TASK_LINE.exec(lines[line] ?? "");
+  if (!m) return text;
+  lines[line] = m[1] + (m[2] === " " ? "x" : " ") + m[3];
+  return lines.join("\n");
+}
@@ -0,0 +1,49 @@
+// --- Manual order --------------------------------------------------------
+// Each todo carries an `order` number; the "Manual" sort shows smaller
+// numbers first. A moved todo gets a number between its new neighbours, so
+// only that one record changes (and syncs). New todos go on top. Completing
+// or undoing leaves `order` alone, so a todo comes back where it was.
+
+export function byOrder(a, b) {
+  return a.order - b.order || b.createdAt - a.createdAt;
+}
+
+/** An order value that sorts before every todo in `todos`. */
+export function topOrder(todos) {
+  return todos.length ? Math.min(...todos.map((t) => t.order)) - 1 : 0;
+}
+
+/** `list` with the item `id` moved to index `to` (counted without the item). */
+export function moveItem(list, id, to) {
+  const item = list.find((x) => x.id === id);
+  if (!item) return list;
+  const rest = list.filter((x) => x !== item);
+  const at = Math.max(0, Math.min(rest.length, to));
+  return [...rest.slice(0, at), item, ...rest.slice(at)];
+}
+
+/**
+ * Moves todo `id` to position `to` within `visible` (the list as shown) and
+ * returns the full list with its new order. Falls back to renumbering every
+ * todo when the gap between neighbours runs out of float precision.
+ */
+export function reorder(todos, visible, id, to) {
+  const moved = moveItem(visible, id, to);
+  const i = moved.findIndex((t) => t.id === id);
+  if (i === -1 || i === visible.findIndex((t) => t.id === id)) return todos;
+  const before = moved[i - 1];
+  const after = moved[i + 1];
+  let order;
+  if (before && after) order = (before.order + after.order) / 2;
+  else if (before) order = before.order + 1;
+  else if (after) order = after.order - 1;
+  else return todos;
+
+  if ((before && order <= before.order) || (after && order >= after.order)) {
+    const all = todos.slice().sort(byOrder);
+    const placed = moveItem(all, id, before ? all.filter((t) => t.id !== id).indexOf(before) + 1 : 0);
+    const rank = new Map(placed.map((t, n) => [t.id, n]));
+    return todos.map((t) => (t.order === rank.get(t.id) ? t : { ...t, order: rank.get(t.id) }));
+  }
+  return todos.map((t) => (t.id === id ? { ...t, order } : t));
+}
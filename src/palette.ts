@@ -0,0 +1,41 @@
+// --- Command palette -----------------------------------------------------
+// Fuzzy matching for the Ctrl+K palette. A query matches when its letters
+// appear in order in the label; runs of adjacent letters and letters at the
+// start of a word score higher, so "sto gro" finds "Stop timer on Groceries".
+
+/**
+ * @typedef PaletteCommand
+ * @property {string} id
+ * @property {string} label
+ * @property {string} [hint] // shortcut shown next to the label
+ * @property {() => void} run
+ */
+
+/** Higher is better; null when the query doesn't match at all. */
+export function fuzzyScore(query, text) {
+  const q = String(query).toLowerCase().replace(/\s+/g, "");
+  const t = String(text).toLowerCase();
+  if (!q) return 0;
+  let score = 0;
+  let last = -1;
+  for (const ch of q) {
+    const i = t.indexOf(ch, last + 1);
+    if (i === -1) return null;
+    score += 1;
+    if (i === last + 1) score += 3;
+    if (i === 0 || /[\s\-_/]/.test(t[i - 1])) score += 5;
+    last = i;
+  }
+  // Prefer tighter matches in shorter labels.
+  return score - (last + 1 - q.length) * 0.1 - t.length * 0.01;
+}
+
+/** Commands matching `query`, best first; all of them, in order, for an empty query. */
+export function rankCommands(commands, query) {
+  if (!String(query).trim()) return commands;
+  return commands
+    .map((c) => ({ c, score: fuzzyScore(query, c.label) }))
+    .filter((x) => x.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map((x) => x.c);
+}
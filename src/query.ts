@@ -0,0 +1,226 @@
+import { parseDuration } from "./quickadd";
+import { subtasksElapsed } from "./subtasks";
+
+// --- Search queries ------------------------------------------------------
+// The header search understands a small query language. Terms are ANDed:
+//
+//   report "weekly sync" -draft   words and quoted phrases in title or notes,
+//                                 a leading "-" negates any term
+//   is:running is:done is:open    state (also is:overdue, is:recurring,
+//                                 is:focus, is:warned)
+//   warn:>30  est:<=1h            any alert threshold / estimate, in minutes
+//   time:>1h                      or durations; time is tracked time
+//   created:<2026-10-01           dates: created, done, due; a bare date
+//                                 means that day
+//   notes:foo title:"a b"         text in one field
+//   tag:acme #acme project:Home   labels (project:inbox for no project)
+//   priority:high                 also p:high, p:none
+//
+// Terms that don't parse are ignored and reported in `errors`; unknown
+// fields ("http://…") are searched as plain text.
+
+/**
+ * @typedef QueryTerm
+ * @property {string|null} field // null for plain text
+ * @property {string} value
+ * @property {boolean} negate
+ *
+ * @typedef Query
+ * @property {QueryTerm[]} terms
+ * @property {string[]} errors // the raw terms that were ignored
+ */
+
+const STATES = ["running", "done", "open", "overdue", "recurring", "focus", "warned"];
+const FIELDS = ["is", "warn", "est", "time", "created", "done", "due", "notes", "title", "tag", "project", "priority", "p"];
+const TOKEN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+const COMPARISON = /^(<=|>=|<|>|=)?(.+)$/;
+
+/** @returns {Query} */
+export function parseQuery(text) {
+  const terms = [];
+  const errors = [];
+  for (const m of String(text || "").matchAll(TOKEN)) {
+    const [raw, minus, name, quoted, bare] = m;
+    const field = name && FIELDS.includes(name.toLowerCase()) ? name.toLowerCase() : null;
+    let value = quoted ?? bare ?? "";
+    // An unknown prefix is part of the text ("http://…", "note:").
+    if (name && !field) value = `${name}:${value}`;
+    const term = { field: field === "p" ? "priority" : field, value, negate: minus === "-" };
+    if (!value || !termValid(term)) {
+      errors.push(raw);
+      continue;
+    }
+    terms.push(term);
+  }
+  return { terms, errors };
+}
+
+function termValid(term) {
+  switch (term.field) {
+    case "is":
+      return STATES.includes(term.value.toLowerCase());
+    case "warn":
+    case "est":
+    case "time":
+      return comparison(term.value, minutesOf) != null;
+    case "created":
+    case "done":
+    case "due":
+      return comparison(term.value, dayOf) != null;
+    case "priority":
+      return ["high", "medium", "low", "none"].includes(term.value.toLowerCase());
+    default:
+      return true;
+  }
+}
+
+function minutesOf(s) {
+  return /^0+$/.test(s) ? 0 : parseDuration(s);
+}
+
+/**
+ * "2026-10-01" → [start, end) of that local day, which is 23 or 25 hours
+ * long when the clocks change. Rollovers such as 2026-02-31 are rejected.
+ */
+function dayOf(s) {
+  const m = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!m) return null;
+  const [year, month, day] = [Number(m[1]), Number(m[2]) - 1, Number(m[3])];
+  const start = new Date(year, month, day);
+  if (start.getMonth() !== month || start.getDate() !== day) return null;
+  return [start.getTime(), new Date(year, month, day + 1).getTime()];
+}
+
+function comparison(value, parse) {
+  const [, op = "=", operand] = COMPARISON.exec(value) || [];
+  const parsed = operand == null ? null : parse(operand);
+  return parsed == null ? null : { op, operand: parsed };
+}
+
+function compareNumber(n, { op, operand }) {
+  if (n == null) return false;
+  switch (op) {
+    case "<":
+      return n < operand;
+    case "<=":
+      return n <= operand;
+    case ">":
+      return n > operand;
+    case ">=":
+      return n >= operand;
+    default:
+      return n === operand;
+  }
+}
+
+/** Dates compare by whole days: created:<2026-10-01 is before that day began. */
+function compareDay(ts, { op, operand: [start, end] }) {
+  if (ts == null) return false;
+  switch (op) {
+    case "<":
+      return ts < start;
+    case "<=":
+      return ts < end;
+    case ">":
+      return ts >= end;
+    case ">=":
+      return ts >= start;
+    default:
+      return ts >= start && ts < end;
+  }
+}
+
+function includes(haystack, needle) {
+  return (haystack || "").toLowerCase().includes(needle.toLowerCase());
+}
+
+function matchState(state, t, now) {
+  switch (state) {
+    case "running":
+      return Boolean(t.running || t.focus || (t.subtasks || []).some((s) => s.running));
+    case "done":
+      return t.completed;
+    case "open":
+      return !t.completed;
+    case "overdue":
+      return !t.completed && t.due != null && t.due < now;
+    case "recurring":
+      return Boolean(t.recurrence);
+    case "focus":
+      return Boolean(t.focus);
+    case "warned":
+      return (t.firedAlerts || []).length > 0;
+    default:
+      return false;
+  }
+}
+
+function matchTerm(term, t, { now, projects }) {
+  const { value } = term;
+  switch (term.field) {
+    case "is":
+      return matchState(value.toLowerCase(), t, now);
+    case "warn":
+      return (t.alerts || []).some((a) => compareNumber(a.minutes, comparison(value, minutesOf)));
+    case "est":
+      return compareNumber(t.estimateMinutes, comparison(value, minutesOf));
+    case "time": {
+      const ms = t.elapsedMs + (t.running && t.startedAt ? now - t.startedAt : 0) + subtasksElapsed(t.subtasks, now);
+      return compareNumber(ms / 60_000, comparison(value, minutesOf));
+    }
+    case "created":
+      return compareDay(t.createdAt, comparison(value, dayOf));
+    case "done":
+      return compareDay(t.completedAt, comparison(value, dayOf));
+    case "due":
+      return compareDay(t.due, comparison(value, dayOf));
+    case "notes":
+      return includes(t.notes, value);
+    case "title":
+      return includes(t.title, value);
+    case "tag":
+      return (t.tags || []).includes(value.replace(/^#/, "").toLowerCase());
+    case "project": {
+      if (value.toLowerCase() === "inbox") return !t.projectId;
+      const project = projects.find((p) => p.id === t.projectId);
+      return Boolean(project) && includes(project.name, value);
+    }
+    case "priority":
+      return value.toLowerCase() === "none" ? !t.priority : t.priority === value.toLowerCase();
+    default:
+      if (value.startsWith("#") && value.length > 1) return (t.tags || []).includes(value.slice(1).toLowerCase());
+      return includes(t.title, value) || includes(t.notes, value);
+  }
+}
+
+/**
+ * Compiles a query into a predicate over todos.
+ * @param {Query} query
+ * @returns {(todo: Todo, ctx: { now: number, projects: Project[] }) => boolean}
+ */
+export function compileQuery(query) {
+  return (t, ctx) => query.terms.every((term) => matchTerm(term, t, ctx) !== term.negate);
+}
+
+// --- Saved views ---------------------------------------------------------
+/**
+ * @typedef SavedView
+ * @property {string} id
+ * @property {string} name
+ * @property {string} query
+ * @property {string} sort
+ * @property {boolean} showCompleted
+ */
+
+export function normalizeViews(views) {
+  if (!Array.isArray(views)) return [];
+  return views
+    .filter((v) => v && typeof v.id === "string" && typeof v.name === "string" && v.name.trim())
+    .map((v) => ({
+      id: v.id,
+      name: v.name.trim(),
+      query: typeof v.query === "string" ? v.query : "",
+      sort: typeof v.sort === "string" ? v.sort : "created-desc",
+      showCompleted: v.showCompleted !== false,
+    }));
+}
@@ -0,0 +1,147 @@
+import { makeThreshold, sortThresholds } from "./thresholds";
+
+// --- Quick add -----------------------------------------------------------
+// Inline syntax for the new-task title:
+//
+//   Write report #acme !high due:fri warn:45m stop:1h ~2h
+//
+//   #tag          tag (repeatable)
+//   !high         priority: !high / !medium / !low, or !h !m !l, or !1 !2 !3
+//   due:fri       due date: today, tomorrow, a weekday, +3d / 2w, or 2024-05-03,
+//                 optionally with a time: due:fri@17:00, due:tomorrow@9am
+//   warn:45m      notification threshold: 45m, 1h30m, 1.5h or plain minutes;
+//                 repeatable, or several at once: warn:25m,45m
+//   stop:1h       stop the timer at this tracked time
+//   ~2h           estimate, same duration forms as warn:
+//
+// Tokens that don't parse (including malformed ones like "due:someday") stay
+// in the title untouched.
+
+/**
+ * @typedef QuickAdd
+ * @property {string} title
+ * @property {string[]} tags
+ * @property {"high"|"medium"|"low"|null} priority
+ * @property {number|null} due
+ * @property {Threshold[]} alerts
+ * @property {number|null} estimateMinutes
+ */
+
+const PRIORITY_TOKENS = {
+  high: "high",
+  h: "high",
+  1: "high",
+  medium: "medium",
+  med: "medium",
+  m: "medium",
+  2: "medium",
+  low: "low",
+  l: "low",
+  3: "low",
+};
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+/** Dates without a time fall due at the end of the day. */
+const DEFAULT_DUE_HOUR = 23;
+const DEFAULT_DUE_MINUTE = 59;
+
+/** "45m", "1h30m", "1.5h", "90" → minutes; null when it isn't a duration. */
+export function parseDuration(text) {
+  const s = String(text).trim().toLowerCase();
+  if (/^\d+(\.\d+)?$/.test(s)) return positive(Number(s));
+  const m = s.match(/^(?:(\d+(?:\.\d+)?)h)?(?:(\d+)m(?:in)?)?$/);
+  if (!m || (!m[1] && !m[2])) return null;
+  return positive(Number(m[1] || 0) * 60 + Number(m[2] || 0));
+}
+
+function positive(minutes) {
+  const n = Math.round(minutes);
+  return n > 0 ? n : null;
+}
+
+export function formatDuration(minutes) {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return h ? (m ? `${h}h${m}m` : `${h}h`) : `${m}m`;
+}
+
+/** "17:00", "17", "5pm", "9:30am" → [hours, minutes]; null when invalid. */
+function parseTimeOfDay(text) {
+  const m = text.match(/^(\d{1,2})(?::(\d{2}))?(am|pm)?$/);
+  if (!m) return null;
+  let h = Number(m[1]);
+  const min = Number(m[2] || 0);
+  if (m[3]) {
+    if (h < 1 || h > 12) return null;
+    h = (h % 12) + (m[3] === "pm" ? 12 : 0);
+  }
+  return h <= 23 && min <= 59 ? [h, min] : null;
+}
+
+/** The day part of a due token, as a Date at local midnight; null when invalid. */
+function parseDueDay(text, now) {
+  const d = new Date(now);
+  d.setHours(0, 0, 0, 0);
+  if (text === "today" || text === "tod") return d;
+  if (text === "tomorrow" || text === "tmr" || text === "tom") {
+    d.setDate(d.getDate() + 1);
+    return d;
+  }
+  const weekday = WEEKDAYS.findIndex((w) => text === w || text === w.slice(0, 3));
+  if (weekday !== -1) {
+    // The next such day, today included.
+    d.setDate(d.getDate() + ((weekday - d.getDay() + 7) % 7));
+    return d;
+  }
+  const rel = text.match(/^\+?(\d+)([dw])$/);
+  if (rel) {
+    d.setDate(d.getDate() + Number(rel[1]) * (rel[2] === "w" ? 7 : 1));
+    return d;
+  }
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    const date = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    // Reject rollovers such as 2024-02-31.
+    return date.getMonth() === Number(iso[2]) - 1 ? date : null;
+  }
+  return null;
+}
+
+export function parseDue(text, now = Date.now()) {
+  const [dayPart, timePart] = String(text).toLowerCase().split("@");
+  const day = parseDueDay(dayPart, now);
+  if (!day) return null;
+  const time = timePart === undefined ? [DEFAULT_DUE_HOUR, DEFAULT_DUE_MINUTE] : parseTimeOfDay(timePart);
+  if (!time) return null;
+  day.setHours(time[0], time[1], 0, 0);
+  return day.getTime();
+}
+
+/** @returns {QuickAdd} */
+export function parseQuickAdd(text, now = Date.now()) {
+  const out = { title: "", tags: [], priority: null, due: null, alerts: [], estimateMinutes: null };
+  const words = [];
+  for (const token of String(text).split(/\s+/).filter(Boolean)) {
+    const lower = token.toLowerCase();
+    let m;
+    if ((m = token.match(/^#([\p{L}\p{N}_-]+)$/u))) {
+      const tag = m[1].toLowerCase();
+      if (!out.tags.includes(tag)) out.tags.push(tag);
+    } else if (lower.startsWith("!") && PRIORITY_TOKENS[lower.slice(1)]) {
+      out.priority = PRIORITY_TOKENS[lower.slice(1)];
+    } else if (lower.startsWith("due:") && parseDue(lower.slice(4), now) != null) {
+      out.due = parseDue(lower.slice(4), now);
+    } else if ((m = lower.match(/^(warn|stop):(.+)$/)) && m[2].split(",").every((d) => parseDuration(d) != null)) {
+      const action = m[1] === "stop" ? "stop" : "notify";
+      for (const d of m[2].split(",")) out.alerts.push(makeThreshold(parseDuration(d), action));
+    } else if (lower.startsWith("~") && parseDuration(lower.slice(1)) != null) {
+      out.estimateMinutes = parseDuration(lower.slice(1));
+    } else {
+      words.push(token);
+    }
+  }
+  out.title = words.join(" ");
+  out.alerts = sortThresholds(out.alerts);
+  return out;
+}
@@ -0,0 +1,131 @@
+// --- Recurrence ----------------------------------------------------------
+// A recurring todo carries a rule. Completing it records that occurrence as
+// a normal completed todo and spawns the next one, due on the next date the
+// rule allows. Dates keep the time of day of the previous due date.
+
+/**
+ * @typedef RecurrenceRule
+ * @property {"daily"|"weekdays"|"weekly"|"monthly"|"interval"} kind
+ * @property {number[]} [days] // weekly: 0 (Sun) … 6 (Sat)
+ * @property {number} [dayOfMonth] // monthly: 1 … 31, clamped to short months
+ * @property {number} [every] // interval: every N days
+ */
+
+export const RECURRENCE_KINDS = ["daily", "weekdays", "weekly", "monthly", "interval"];
+export const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** Undated series fall due at the end of their day. */
+const DEFAULT_DUE_HOUR = 23;
+const DEFAULT_DUE_MINUTE = 59;
+
+export function validateRule(rule) {
+  if (typeof rule !== "object" || rule === null) return false;
+  switch (rule.kind) {
+    case "daily":
+    case "weekdays":
+      return true;
+    case "weekly":
+      return (
+        Array.isArray(rule.days) &&
+        rule.days.length > 0 &&
+        rule.days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)
+      );
+    case "monthly":
+      return Number.isInteger(rule.dayOfMonth) && rule.dayOfMonth >= 1 && rule.dayOfMonth <= 31;
+    case "interval":
+      return Number.isInteger(rule.every) && rule.every >= 1;
+    default:
+      return false;
+  }
+}
+
+function lastDayOfMonth(year, month) {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+function matches(rule, d) {
+  switch (rule.kind) {
+    case "daily":
+      return true;
+    case "weekdays":
+      return d.getDay() >= 1 && d.getDay() <= 5;
+    case "weekly":
+      return rule.days.includes(d.getDay());
+    case "monthly":
+      return d.getDate() === Math.min(rule.dayOfMonth, lastDayOfMonth(d.getFullYear(), d.getMonth()));
+    default:
+      return false;
+  }
+}
+
+/**
+ * The first occurrence strictly after `after`, on a later calendar day.
+ * @param {RecurrenceRule} rule
+ * @param {number} after timestamp of the previous occurrence (or now)
+ * @param {number|null} timeOf timestamp whose time of day the result keeps
+ */
+export function nextOccurrence(rule, after, timeOf = null) {
+  const d = new Date(after);
+  if (timeOf != null) {
+    const t = new Date(timeOf);
+    d.setHours(t.getHours(), t.getMinutes(), 0, 0);
+  } else {
+    d.setHours(DEFAULT_DUE_HOUR, DEFAULT_DUE_MINUTE, 0, 0);
+  }
+  if (rule.kind === "interval") {
+    d.setDate(d.getDate() + rule.every);
+    return d.getTime();
+  }
+  // Any valid rule matches within a year and a day (monthly on the 31st
+  // clamps to the last day of short months).
+  for (let i = 0; i < 367; i++) {
+    d.setDate(d.getDate() + 1);
+    if (matches(rule, d)) return d.getTime();
+  }
+  return null;
+}
+
+/**
+ * When the occurrence after `todo` is due. A late completion skips the
+ * occurrences that were missed rather than spawning them overdue.
+ */
+export function nextDue(todo, now = Date.now()) {
+  const base = todo.due != null ? Math.max(todo.due, now) : now;
+  return nextOccurrence(todo.recurrence, base, todo.due);
+}
+
+export function describeRule(rule) {
+  switch (rule.kind) {
+    case "daily":
+      return "Daily";
+    case "weekdays":
+      return "Weekdays";
+    case "weekly":
+      return `Weekly on ${rule.days
+        .slice()
+        .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+        .map((d) => WEEKDAY_NAMES[d])
+        .join(", ")}`;
+    case "monthly":
+      return `Monthly on day ${rule.dayOfMonth}`;
+    case "interval":
+      return rule.every === 1 ? "Every day" : `Every ${rule.every} days`;
+    default:
+      return "Repeats";
+  }
+}
+
+/** A sensible rule of the given kind, anchored on `from`. */
+export function defaultRule(kind, from = Date.now()) {
+  const d = new Date(from);
+  switch (kind) {
+    case "weekly":
+      return { kind, days: [d.getDay()] };
+    case "monthly":
+      return { kind, dayOfMonth: d.getDate() };
+    case "interval":
+      return { kind, every: 2 };
+    default:
+      return { kind };
+  }
+}
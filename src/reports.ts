@@ -0,0 +1,112 @@
+import { csvCell } from "./transfer";
+
+// --- Time reports --------------------------------------------------------
+// Reports are built from the session logs of todos and their subtasks, plus
+// any run still going. Time is split at local midnight so each slice lands
+// on the day it was worked; subtask time counts towards its parent todo.
+
+/**
+ * @typedef Report
+ * @property {number[]} days // local midnights, oldest first
+ * @property {number[]} dayTotals // ms worked per day
+ * @property {number[]} dayCompleted // todos completed per day
+ * @property {{ todo: Todo, byDay: number[], total: number }[]} rows // todos with time in range, most first
+ * @property {number} total
+ */
+
+export function dayStart(ms) {
+  const d = new Date(ms);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+}
+
+function shiftDays(ms, days) {
+  const d = new Date(ms);
+  d.setDate(d.getDate() + days);
+  return d.getTime();
+}
+
+/** Monday 00:00 of the week containing `ms`. */
+export function weekStart(ms) {
+  const day = dayStart(ms);
+  return shiftDays(day, -((new Date(day).getDay() + 6) % 7));
+}
+
+/** Local midnights from `from` up to (not including) `to`. */
+export function daysBetween(from, to) {
+  const days = [];
+  for (let d = dayStart(from); d < to; d = shiftDays(d, 1)) days.push(d);
+  return days;
+}
+
+function runSlices(item, now) {
+  const slices = (item.sessions || []).map((s) => ({ start: s.start, end: s.end }));
+  if (item.running && item.startedAt) slices.push({ start: item.startedAt, end: now });
+  return slices;
+}
+
+/** Every timed interval of a todo, its subtasks' included. */
+export function timeSlices(todo, now = Date.now()) {
+  return [runSlices(todo, now), ...(todo.subtasks || []).map((s) => runSlices(s, now))].flat();
+}
+
+/** Milliseconds of `slices` falling on each of `days`. */
+function spreadOverDays(slices, days) {
+  const byDay = days.map(() => 0);
+  for (const { start, end } of slices) {
+    days.forEach((day, i) => {
+      const next = shiftDays(day, 1);
+      const overlap = Math.min(end, next) - Math.max(start, day);
+      if (overlap > 0) byDay[i] += overlap;
+    });
+  }
+  return byDay;
+}
+
+/**
+ * Time worked per day and per todo between two local dates.
+ * @param {number} from first day (any time on it)
+ * @param {number} to end of the range, exclusive
+ * @returns {Report}
+ */
+export function buildReport(todos, from, to, now = Date.now()) {
+  const days = daysBetween(from, to);
+  const rows = todos
+    .map((todo) => {
+      const byDay = spreadOverDays(timeSlices(todo, now), days);
+      return { todo, byDay, total: byDay.reduce((a, b) => a + b, 0) };
+    })
+    .filter((r) => r.total > 0)
+    .sort((a, b) => b.total - a.total);
+  const dayTotals = days.map((_, i) => rows.reduce((acc, r) => acc + r.byDay[i], 0));
+  const dayCompleted = days.map((day) => {
+    const next = shiftDays(day, 1);
+    return todos.filter((t) => t.completedAt != null && t.completedAt >= day && t.completedAt < next).length;
+  });
+  return { days, dayTotals, dayCompleted, rows, total: dayTotals.reduce((a, b) => a + b, 0) };
+}
+
+function isoDay(ms) {
+  const d = new Date(ms);
+  return [d.getFullYear(), d.getMonth() + 1, d.getDate()]
+    .map((n) => String(n).padStart(2, "0"))
+    .join("-");
+}
+
+function hours(ms) {
+  return (ms / 3_600_000).toFixed(2);
+}
+
+/** The report as a timesheet: one row per todo, one column per day, hours to two decimals. */
+export function timesheetCSV(report, projects = []) {
+  const names = new Map(projects.map((p) => [p.id, p.name]));
+  const header = ["Task", "Project", ...report.days.map(isoDay), "Total"];
+  const rows = report.rows.map((r) => [
+    r.todo.title,
+    names.get(r.todo.projectId) ?? "",
+    ...r.byDay.map(hours),
+    hours(r.total),
+  ]);
+  const totals = ["Total", "", ...report.dayTotals.map(hours), hours(report.total)];
+  return [header, ...rows, totals].map((r) => r.map(csvCell).join(",")).join("\r\n");
+}
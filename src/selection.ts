@@ -0,0 +1,68 @@
+import { stopFocus } from "./focus";
+import { closeRun } from "./sessions";
+import { stopSubtasks } from "./subtasks";
+import { makeThreshold, passedThresholds, sortThresholds } from "./thresholds";
+
+// --- Multi-select --------------------------------------------------------
+// Rows can be ticked for batch actions. The ticked ids are kept apart from
+// the keyboard cursor; shift-click ticks or unticks every row between the
+// last one clicked and this one, in the order they are shown.
+
+export function toggleChecked(checked, id) {
+  return checked.includes(id) ? checked.filter((x) => x !== id) : [...checked, id];
+}
+
+/** Shift-click: the rows from `anchorId` to `id` take the anchor's state. */
+export function checkRange(checked, order, anchorId, id) {
+  const from = order.indexOf(anchorId);
+  const to = order.indexOf(id);
+  if (from === -1 || to === -1) return toggleChecked(checked, id);
+  const range = order.slice(Math.min(from, to), Math.max(from, to) + 1);
+  if (!checked.includes(anchorId)) return checked.filter((x) => !range.includes(x));
+  return [...checked, ...range.filter((x) => !checked.includes(x))];
+}
+
+// --- Batch actions -------------------------------------------------------
+// Each returns the list unchanged when nothing applies, so a no-op batch
+// doesn't land in the undo history.
+
+function isRunning(t) {
+  return Boolean(t.running || t.focus || (t.subtasks || []).some((s) => s.running));
+}
+
+/** Stops every timer on the todos in `ids`: runs, focus sessions and subtasks. */
+export function stopTimers(todos, ids, now = Date.now()) {
+  let changed = false;
+  const next = todos.map((t) => {
+    if (!ids.includes(t.id) || !isRunning(t)) return t;
+    changed = true;
+    const stopped = t.focus ? stopFocus(t, now) : closeRun(t, now);
+    return { ...stopped, subtasks: stopSubtasks(t.subtasks, now) };
+  });
+  return changed ? next : todos;
+}
+
+/**
+ * Gives the todos in `ids` a single notification threshold at `minutes`
+ * (none when null). Toasts, chimes and auto-stops are left as they are. As
+ * when editing one todo, a new threshold already passed mid-run doesn't fire.
+ */
+export function setWarning(todos, ids, minutes, now = Date.now()) {
+  let changed = false;
+  const next = todos.map((t) => {
+    if (!ids.includes(t.id) || t.completed) return t;
+    changed = true;
+    const added = minutes ? [makeThreshold(minutes)] : [];
+    const alerts = sortThresholds([...(t.alerts || []).filter((a) => a.action !== "notify"), ...added]);
+    const elapsed = t.elapsedMs + (t.running && t.startedAt ? now - t.startedAt : 0);
+    return {
+      ...t,
+      alerts,
+      firedAlerts: [
+        ...(t.firedAlerts || []).filter((id) => alerts.some((a) => a.id === id)),
+        ...(t.running ? passedThresholds(added, elapsed) : []),
+      ],
+    };
+  });
+  return changed ? next : todos;
+}
@@ -0,0 +1,104 @@
+// --- Session log ---------------------------------------------------------
+// Every start/stop pair of a todo's timer is kept as a session. A todo's
+// `elapsedMs` is derived from its sessions and cached on the record so the
+// list, sort and stats code can keep reading a single number.
+
+/**
+ * @typedef Session
+ * @property {string} id
+ * @property {number} start // timestamp the timer was started
+ * @property {number} end // timestamp the timer was stopped
+ * @property {string} note
+ */
+
+function sessionId() {
+  return "s" + Math.random().toString(36).slice(2) + Date.now().toString(36);
+}
+
+export function makeSession(start, end, note = "") {
+  return { id: sessionId(), start, end, note };
+}
+
+export function sessionMs(s) {
+  return Math.max(0, s.end - s.start);
+}
+
+export function sumSessions(sessions) {
+  return (sessions || []).reduce((acc, s) => acc + sessionMs(s), 0);
+}
+
+/** Sessions sorted oldest first; the stored order is not guaranteed. */
+export function sortSessions(sessions) {
+  return (sessions || []).slice().sort((a, b) => a.start - b.start);
+}
+
+/** Returns the todo with `sessions` replaced and `elapsedMs` recomputed. */
+export function withSessions(todo, sessions) {
+  const sorted = sortSessions(sessions);
+  return { ...todo, sessions: sorted, elapsedMs: sumSessions(sorted) };
+}
+
+/** Closes the open run of a running todo (if any) into a new session. */
+export function closeRun(todo, now = Date.now()) {
+  if (!todo.running || !todo.startedAt) {
+    return { ...todo, running: false, startedAt: null };
+  }
+  const session = makeSession(todo.startedAt, Math.max(todo.startedAt, now));
+  return {
+    ...withSessions(todo, [...(todo.sessions || []), session]),
+    running: false,
+    startedAt: null,
+  };
+}
+
+/** Splits a session in two at `at` (defaults to its midpoint). */
+export function splitSession(sessions, id, at = null) {
+  return (sessions || []).flatMap((s) => {
+    if (s.id !== id) return [s];
+    const cut = at ?? s.start + Math.floor(sessionMs(s) / 2);
+    if (cut <= s.start || cut >= s.end) return [s];
+    return [
+      { ...s, end: cut },
+      makeSession(cut, s.end, s.note),
+    ];
+  });
+}
+
+export function patchSession(sessions, id, patch) {
+  return (sessions || []).map((s) => (s.id === id ? { ...s, ...patch } : s));
+}
+
+export function removeSession(sessions, id) {
+  return (sessions || []).filter((s) => s.id !== id);
+}
+
+/**
+ * Gives a todo stored before sessions existed a session log. The old
+ * accumulated total becomes one session starting at `createdAt`, since the
+ * real start/stop times were never recorded.
+ */
+export function ensureSessions(todo) {
+  if (Array.isArray(todo.sessions)) return withSessions(todo, todo.sessions);
+  const elapsed = Number(todo.elapsedMs) || 0;
+  const sessions =
+    elapsed > 0
+      ? [makeSession(todo.createdAt, todo.createdAt + elapsed, "Time logged before sessions")]
+      : [];
+  return withSessions(todo, sessions);
+}
+
+// --- datetime-local helpers ---------------------------------------------
+export function toLocalInput(ms) {
+  const d = new Date(ms);
+  const pad = (n) => String(n).padStart(2, "0");
+  return (
+    `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}` +
+    `T${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`
+  );
+}
+
+export function fromLocalInput(value) {
+  if (!value) return null;
+  const ms = new Date(value).getTime();
+  return Number.isFinite(ms) ? ms : null;
+}
@@ -0,0 +1,424 @@
+import { LEGACY_STORAGE_KEY, STORAGE_KEY, localStorageAdapter } from "./adapters";
+import { normalizeFocusSettings, validateFocus } from "./focus";
+import { normalizeIdleMinutes } from "./idle";
+import { normalizeViews } from "./query";
+import { normalizeSyncSettings } from "./sync";
+import { validateRule } from "./recurrence";
+import { ensureSessions } from "./sessions";
+import { normalizeSubtask } from "./subtasks";
+import { normalizeThresholds } from "./thresholds";
+import { mergeDeleted, mergeRecords } from "./tabs";
+
+// --- Versioned storage ---------------------------------------------------
+// The store is saved as `{ version, todos, projects, templates, deleted }`, where
+// `deleted` holds tombstones (id → deletion time) for multi-tab merging.
+// Older payloads are brought up to date by running every migration newer
+// than their version, in order, and every record is then validated against
+// its collection's shape. Records that fail either step are moved to a
+// quarantine key instead of being dropped, so a shape change can never
+// silently wipe a list. Where the payload is kept is up to a storage adapter
+// (see adapters.ts); localStorage is the default.
+
+export { LEGACY_STORAGE_KEY, STORAGE_KEY };
+export const QUARANTINE_KEY = "do-todo-quarantine";
+/** Per-device preferences (focus lengths, …); not merged between devices. */
+export const PREFS_KEY = "do-todo-prefs";
+
+/**
+ * Ordered migration chain. `todo` upgrades a single record from the previous
+ * version; `payload` upgrades the envelope around the records.
+ *
+ * @typedef Migration
+ * @property {number} version
+ * @property {string} description
+ * @property {(record: object) => object} [todo]
+ * @property {(payload: object) => object} [payload]
+ */
+
+/** @type {Migration[]} */
+const MIGRATIONS = [
+  {
+    version: 2,
+    description: "Per-session time log",
+    todo: (t) => ensureSessions(t),
+  },
+  {
+    version: 3,
+    description: "Last-modified stamps and tombstones for multi-tab sync",
+    todo: (t) => ({
+      ...t,
+      updatedAt: Math.max(t.createdAt, t.completedAt ?? 0, ...(t.sessions || []).map((s) => s.end)),
+      runOwner: null,
+    }),
+    payload: (p) => ({ ...p, deleted: {} }),
+  },
+  {
+    version: 4,
+    description: "Projects and tags",
+    todo: (t) => ({ ...t, projectId: null, tags: [] }),
+    payload: (p) => ({ ...p, projects: [] }),
+  },
+  {
+    version: 5,
+    description: "Due dates and priorities",
+    todo: (t) => ({ ...t, due: null, priority: null }),
+  },
+  {
+    version: 6,
+    description: "Recurring tasks",
+    todo: (t) => ({ ...t, recurrence: null, seriesId: null }),
+  },
+  {
+    version: 7,
+    description: "Subtasks",
+    todo: (t) => ({ ...t, subtasks: [] }),
+  },
+  {
+    version: 8,
+    description: "Focus mode and pomodoro counts",
+    todo: (t) => ({ ...t, focus: null, pomodoros: 0 }),
+  },
+  {
+    version: 9,
+    description: "Time estimates",
+    todo: (t) => ({ ...t, estimateMinutes: null }),
+  },
+  {
+    version: 10,
+    description: "Manual order, newest first like the old default sort",
+    todo: (t) => ({ ...t, order: -t.createdAt }),
+  },
+  {
+    version: 11,
+    description: "Several alert thresholds per todo instead of one warning",
+    todo: ({ warningMinutes, warned, ...t }) => {
+      const alerts = warningMinutes > 0 ? [{ id: "warn", minutes: warningMinutes, action: "notify" }] : [];
+      return { ...t, alerts, firedAlerts: warned ? alerts.map((a) => a.id) : [] };
+    },
+  },
+  {
+    version: 12,
+    description: "Archive for completed todos",
+    todo: (t) => ({ ...t, archivedAt: null }),
+  },
+  {
+    version: 13,
+    description: "Task templates",
+    payload: (p) => ({ ...p, templates: [] }),
+  },
+];
+
+export const PRIORITIES = ["high", "medium", "low"];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function isObject(v) {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isTime(v) {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+function isTimeOrNull(v) {
+  return v === null || v === undefined || isTime(v);
+}
+
+function validSessions(list) {
+  return (
+    Array.isArray(list) &&
+    list.every(
+      (s) => isObject(s) && typeof s.id === "string" && isTime(s.start) && isTime(s.end) && s.end >= s.start
+    )
+  );
+}
+
+function isStringOrNull(v) {
+  return v === null || v === undefined || typeof v === "string";
+}
+
+/**
+ * Checks a record against the current Todo shape. Optional fields that are
+ * merely missing get their defaults; anything of the wrong type is rejected.
+ * @returns {{ ok: true, value: Todo } | { ok: false, reason: string }}
+ */
+export function validateTodo(record) {
+  if (!isObject(record)) return { ok: false, reason: "not an object" };
+  const t = record;
+  if (typeof t.id !== "string" || !t.id) return { ok: false, reason: "missing id" };
+  if (typeof t.title !== "string") return { ok: false, reason: "missing title" };
+  if (!isTime(t.createdAt)) return { ok: false, reason: "bad createdAt" };
+  if (t.notes !== undefined && typeof t.notes !== "string") return { ok: false, reason: "bad notes" };
+  if (!isTimeOrNull(t.completedAt)) return { ok: false, reason: "bad completedAt" };
+  if (!isTimeOrNull(t.startedAt)) return { ok: false, reason: "bad startedAt" };
+  if (!isTimeOrNull(t.archivedAt)) return { ok: false, reason: "bad archivedAt" };
+  const alerts = normalizeThresholds(t.alerts);
+  if (!alerts) return { ok: false, reason: "bad alerts" };
+  if (t.firedAlerts != null && !(Array.isArray(t.firedAlerts) && t.firedAlerts.every((x) => typeof x === "string"))) {
+    return { ok: false, reason: "bad firedAlerts" };
+  }
+  if (t.estimateMinutes != null && !(isTime(t.estimateMinutes) && t.estimateMinutes > 0)) {
+    return { ok: false, reason: "bad estimateMinutes" };
+  }
+  if (t.order != null && !isTime(t.order)) return { ok: false, reason: "bad order" };
+  if (!Array.isArray(t.sessions)) return { ok: false, reason: "missing sessions" };
+  if (!validSessions(t.sessions)) return { ok: false, reason: "bad session" };
+  if (!isTimeOrNull(t.updatedAt)) return { ok: false, reason: "bad updatedAt" };
+  if (!isStringOrNull(t.projectId)) return { ok: false, reason: "bad projectId" };
+  if (!isTimeOrNull(t.due)) return { ok: false, reason: "bad due" };
+  if (t.priority != null && !PRIORITIES.includes(t.priority)) return { ok: false, reason: "bad priority" };
+  if (t.recurrence != null && !validateRule(t.recurrence)) return { ok: false, reason: "bad recurrence" };
+  if (!isStringOrNull(t.seriesId)) return { ok: false, reason: "bad seriesId" };
+  if (t.focus != null && !validateFocus(t.focus)) return { ok: false, reason: "bad focus" };
+  if (t.pomodoros != null && !(Number.isInteger(t.pomodoros) && t.pomodoros >= 0)) {
+    return { ok: false, reason: "bad pomodoros" };
+  }
+  const subtasks = t.subtasks === undefined ? [] : t.subtasks;
+  if (!Array.isArray(subtasks)) return { ok: false, reason: "bad subtasks" };
+  const normalizedSubtasks = subtasks.map((s) => (validSessions(s?.sessions) ? normalizeSubtask(s) : null));
+  if (normalizedSubtasks.includes(null)) return { ok: false, reason: "bad subtask" };
+  if (t.tags !== undefined && !(Array.isArray(t.tags) && t.tags.every((x) => typeof x === "string"))) {
+    return { ok: false, reason: "bad tags" };
+  }
+
+  const running = Boolean(t.running) && isTime(t.startedAt);
+  const todo = {
+    ...t,
+    notes: t.notes ?? "",
+    completed: Boolean(t.completed),
+    completedAt: t.completed ? t.completedAt ?? null : null,
+    archivedAt: t.completed ? t.archivedAt ?? null : null,
+    running: running && !t.completed,
+    startedAt: running && !t.completed ? t.startedAt : null,
+    alerts,
+    firedAlerts: (t.firedAlerts ?? []).filter((id) => alerts.some((a) => a.id === id)),
+    estimateMinutes: t.estimateMinutes ?? null,
+    order: t.order ?? -t.createdAt,
+    updatedAt: t.updatedAt ?? t.createdAt,
+    runOwner: typeof t.runOwner === "string" ? t.runOwner : null,
+    projectId: t.projectId ?? null,
+    tags: t.tags ?? [],
+    due: t.due ?? null,
+    priority: t.priority ?? null,
+    recurrence: t.recurrence ?? null,
+    seriesId: t.seriesId ?? null,
+    subtasks: normalizedSubtasks,
+    focus: t.completed ? null : t.focus ?? null,
+    pomodoros: t.pomodoros ?? 0,
+    sessions: t.sessions.map((s) => ({ ...s, note: typeof s.note === "string" ? s.note : "" })),
+  };
+  return { ok: true, value: ensureSessions(todo) };
+}
+
+/**
+ * @typedef Project
+ * @property {string} id
+ * @property {string} name
+ * @property {number} createdAt
+ * @property {number} updatedAt
+ */
+export function validateProject(record) {
+  if (!isObject(record)) return { ok: false, reason: "not an object" };
+  const p = record;
+  if (typeof p.id !== "string" || !p.id) return { ok: false, reason: "missing id" };
+  if (typeof p.name !== "string" || !p.name.trim()) return { ok: false, reason: "missing name" };
+  if (!isTime(p.createdAt)) return { ok: false, reason: "bad createdAt" };
+  if (!isTimeOrNull(p.updatedAt)) return { ok: false, reason: "bad updatedAt" };
+  return { ok: true, value: { ...p, updatedAt: p.updatedAt ?? p.createdAt } };
+}
+
+/** See templates.ts for the shape; `subtasks` holds titles only. */
+export function validateTemplate(record) {
+  if (!isObject(record)) return { ok: false, reason: "not an object" };
+  const p = record;
+  if (typeof p.id !== "string" || !p.id) return { ok: false, reason: "missing id" };
+  if (typeof p.name !== "string" || !p.name.trim()) return { ok: false, reason: "missing name" };
+  if (typeof p.title !== "string") return { ok: false, reason: "missing title" };
+  if (!isTime(p.createdAt)) return { ok: false, reason: "bad createdAt" };
+  if (!isTimeOrNull(p.updatedAt)) return { ok: false, reason: "bad updatedAt" };
+  if (p.notes !== undefined && typeof p.notes !== "string") return { ok: false, reason: "bad notes" };
+  const alerts = normalizeThresholds(p.alerts);
+  if (!alerts) return { ok: false, reason: "bad alerts" };
+  if (p.estimateMinutes != null && !(isTime(p.estimateMinutes) && p.estimateMinutes > 0)) {
+    return { ok: false, reason: "bad estimateMinutes" };
+  }
+  if (!isStringOrNull(p.projectId)) return { ok: false, reason: "bad projectId" };
+  if (p.priority != null && !PRIORITIES.includes(p.priority)) return { ok: false, reason: "bad priority" };
+  for (const key of ["tags", "subtasks"]) {
+    if (p[key] !== undefined && !(Array.isArray(p[key]) && p[key].every((x) => typeof x === "string"))) {
+      return { ok: false, reason: `bad ${key}` };
+    }
+  }
+  return {
+    ok: true,
+    value: {
+      ...p,
+      notes: p.notes ?? "",
+      alerts,
+      estimateMinutes: p.estimateMinutes ?? null,
+      projectId: p.projectId ?? null,
+      tags: p.tags ?? [],
+      priority: p.priority ?? null,
+      subtasks: p.subtasks ?? [],
+      updatedAt: p.updatedAt ?? p.createdAt,
+    },
+  };
+}
+
+/** Collections in the payload and how to validate their records. */
+const COLLECTIONS = {
+  todos: validateTodo,
+  projects: validateProject,
+  templates: validateTemplate,
+};
+
+function emptyStore() {
+  return { todos: [], projects: [], templates: [], deleted: {} };
+}
+
+/**
+ * Upgrades and validates a stored payload. Pure: no storage access.
+ * @param {unknown} data parsed payload (v1 bare array or `{ version, todos, … }`)
+ * @returns {{ todos: Todo[], projects: Project[], templates: Template[], deleted: Record<string, number>, quarantined: Array<{ record: unknown, reason: string, version: number }> }}
+ */
+export function migratePayload(data) {
+  let payload = Array.isArray(data) ? { version: 1, todos: data } : data;
+  if (!isObject(payload) || !Array.isArray(payload.todos)) {
+    return { ...emptyStore(), quarantined: [{ record: data, reason: "unrecognised payload", version: 0 }] };
+  }
+
+  const quarantined = [];
+  const from = Number(payload.version) || 1;
+  // Keep each stored record next to its upgraded form so quarantine holds
+  // exactly what was on disk.
+  let records = payload.todos.map((r) => ({ original: r, value: r }));
+  for (const m of MIGRATIONS) {
+    if (m.version <= from) continue;
+    if (m.payload) payload = m.payload(payload);
+    const up = m.todo;
+    if (!up) continue;
+    records = records.flatMap((r) => {
+      try {
+        return [{ ...r, value: up(r.value) }];
+      } catch (err) {
+        quarantined.push({ record: r.original, reason: `migration to v${m.version} failed: ${err}`, version: from });
+        return [];
+      }
+    });
+  }
+
+  const store = { ...emptyStore(), deleted: isObject(payload.deleted) ? payload.deleted : {} };
+  for (const [name, validate] of Object.entries(COLLECTIONS)) {
+    const list =
+      name === "todos"
+        ? records
+        : (Array.isArray(payload[name]) ? payload[name] : []).map((r) => ({ original: r, value: r }));
+    const seen = new Set();
+    for (const r of list) {
+      const result = validate(r.value);
+      if (!result.ok) {
+        quarantined.push({ record: r.original, reason: result.reason, version: from });
+      } else if (seen.has(result.value.id)) {
+        quarantined.push({ record: r.original, reason: "duplicate id", version: from });
+      } else {
+        seen.add(result.value.id);
+        store[name].push(result.value);
+      }
+    }
+  }
+  return { ...store, quarantined };
+}
+
+function quarantine(entries) {
+  if (!entries.length) return;
+  let existing = [];
+  try {
+    existing = JSON.parse(localStorage.getItem(QUARANTINE_KEY) || "[]");
+    if (!Array.isArray(existing)) existing = [];
+  } catch (_) {
+    existing = [];
+  }
+  // The same bad record is seen again on every load until the user deals
+  // with it, so only keep the first copy.
+  const known = new Set(existing.map((e) => JSON.stringify(e.record)));
+  const at = Date.now();
+  const fresh = entries
+    .filter((e) => !known.has(JSON.stringify(e.record)))
+    .map((e) => ({ ...e, at }));
+  if (!fresh.length) return;
+  localStorage.setItem(QUARANTINE_KEY, JSON.stringify([...existing, ...fresh]));
+}
+
+/**
+ * Loads todos through a storage adapter (localStorage falls back to the v1
+ * key on first run). Corrupt records are quarantined and reported in
+ * `quarantined`.
+ */
+export async function loadTodos(adapter = localStorageAdapter()) {
+  let raw = null;
+  try {
+    raw = await adapter.read();
+  } catch (_) {
+    return { ...emptyStore(), quarantined: [] };
+  }
+  return parseStored(raw);
+}
+
+/** Parses a raw payload string, e.g. the `newValue` of a `storage` event. */
+export function parseStored(raw) {
+  if (!raw) return { ...emptyStore(), quarantined: [] };
+
+  let data;
+  try {
+    data = JSON.parse(raw);
+  } catch (_) {
+    const entries = [{ record: raw, reason: "unparseable JSON", version: 0 }];
+    quarantine(entries);
+    return { ...emptyStore(), quarantined: entries };
+  }
+
+  const result = migratePayload(data);
+  quarantine(result.quarantined);
+  return result;
+}
+
+/**
+ * Saves the store, first merging in whatever another tab stored since we
+ * last read it so neither tab's changes are overwritten.
+ * @param {{ todos: Todo[], projects: Project[], templates: Template[], deleted: Record<string, number> }} store
+ */
+export function saveTodos({ todos, projects, templates, deleted }, adapter = localStorageAdapter()) {
+  return adapter.update((raw) => {
+    const stored = raw ? parseStored(raw) : emptyStore();
+    const tombstones = mergeDeleted(stored.deleted, deleted);
+    const next = JSON.stringify({
+      version: SCHEMA_VERSION,
+      todos: mergeRecords(todos, stored.todos, tombstones),
+      projects: mergeRecords(projects, stored.projects, tombstones),
+      templates: mergeRecords(templates, stored.templates, tombstones),
+      deleted: tombstones,
+    });
+    return next !== raw ? next : null;
+  });
+}
+
+export function loadPrefs() {
+  let data = {};
+  try {
+    data = JSON.parse(localStorage.getItem(PREFS_KEY) || "{}") || {};
+  } catch (_) {
+    data = {};
+  }
+  return {
+    ...data,
+    focus: normalizeFocusSettings(data.focus),
+    idleMinutes: normalizeIdleMinutes(data.idleMinutes),
+    storage: data.storage === "indexeddb" ? "indexeddb" : "local",
+    sync: normalizeSyncSettings(data.sync),
+    views: normalizeViews(data.views),
+  };
+}
+
+export function savePrefs(prefs) {
+  localStorage.setItem(PREFS_KEY, JSON.stringify(prefs));
+}
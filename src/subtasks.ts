@@ -0,0 +1,113 @@
+import { closeRun, withSessions } from "./sessions";
+
+// --- Subtasks ------------------------------------------------------------
+// Checklist items nested under a todo. Each can be timed on its own with the
+// same session log as a todo; the parent shows their time rolled up.
+
+/**
+ * @typedef Subtask
+ * @property {string} id
+ * @property {string} title
+ * @property {boolean} done
+ * @property {number|null} doneAt
+ * @property {boolean} running
+ * @property {number|null} startedAt
+ * @property {Session[]} sessions
+ * @property {number} elapsedMs // derived: total of `sessions`
+ */
+
+export function makeSubtask(title) {
+  return {
+    id: "c" + Math.random().toString(36).slice(2) + Date.now().toString(36),
+    title: title.trim(),
+    done: false,
+    doneAt: null,
+    running: false,
+    startedAt: null,
+    sessions: [],
+    elapsedMs: 0,
+  };
+}
+
+export function subtaskElapsed(s, now) {
+  return s.elapsedMs + (s.running && s.startedAt ? now - s.startedAt : 0);
+}
+
+export function subtasksElapsed(subtasks, now) {
+  return (subtasks || []).reduce((acc, s) => acc + subtaskElapsed(s, now), 0);
+}
+
+export function subtaskProgress(subtasks) {
+  const list = subtasks || [];
+  return { done: list.filter((s) => s.done).length, total: list.length };
+}
+
+export function openSubtasks(subtasks) {
+  return (subtasks || []).filter((s) => !s.done);
+}
+
+export function toggleSubtaskRun(subtasks, id, now = Date.now()) {
+  return subtasks.map((s) => {
+    if (s.id !== id || s.done) return s;
+    return s.running ? closeRun(s, now) : { ...s, running: true, startedAt: now };
+  });
+}
+
+/** Ticking an item off stops its timer; unticking leaves it stopped. */
+export function toggleSubtaskDone(subtasks, id, now = Date.now()) {
+  return subtasks.map((s) => {
+    if (s.id !== id) return s;
+    return s.done
+      ? { ...s, done: false, doneAt: null }
+      : { ...closeRun(s, now), done: true, doneAt: now };
+  });
+}
+
+export function completeSubtasks(subtasks, now = Date.now()) {
+  return (subtasks || []).map((s) => (s.done ? s : { ...closeRun(s, now), done: true, doneAt: now }));
+}
+
+/** Stops any running subtask timers, e.g. when the parent is completed. */
+export function stopSubtasks(subtasks, now = Date.now()) {
+  return (subtasks || []).map((s) => (s.running ? closeRun(s, now) : s));
+}
+
+/** Fresh, unticked copies for the next occurrence of a recurring todo. */
+export function resetSubtasks(subtasks) {
+  return (subtasks || []).map((s) => makeSubtask(s.title));
+}
+
+export function moveSubtask(subtasks, id, delta) {
+  const i = subtasks.findIndex((s) => s.id === id);
+  const j = i + delta;
+  if (i === -1 || j < 0 || j >= subtasks.length) return subtasks;
+  const next = subtasks.slice();
+  [next[i], next[j]] = [next[j], next[i]];
+  return next;
+}
+
+export function renameSubtask(subtasks, id, title) {
+  return subtasks.map((s) => (s.id === id && title.trim() ? { ...s, title: title.trim() } : s));
+}
+
+export function removeSubtask(subtasks, id) {
+  return subtasks.filter((s) => s.id !== id);
+}
+
+/** Normalizes a stored subtask; returns null when it can't be trusted. */
+export function normalizeSubtask(s) {
+  if (typeof s !== "object" || s === null) return null;
+  if (typeof s.id !== "string" || typeof s.title !== "string") return null;
+  if (!Array.isArray(s.sessions)) return null;
+  const running = Boolean(s.running) && typeof s.startedAt === "number" && !s.done;
+  return withSessions(
+    {
+      ...s,
+      done: Boolean(s.done),
+      doneAt: s.done && typeof s.doneAt === "number" ? s.doneAt : null,
+      running,
+      startedAt: running ? s.startedAt : null,
+    },
+    s.sessions
+  );
+}
@@ -0,0 +1,296 @@
+// --- Server sync ---------------------------------------------------------
+// Optional sync with a self-hosted server (protocol: docs/sync-protocol.md,
+// reference server: server/sync-server.mjs). The client remembers the last
+// state it agreed on with the server (the "shadow"). Local edits are the
+// fields that differ from the shadow; they are pushed stamped with their
+// record's `updatedAt`, and the server keeps the newest value of each field.
+// Because the shadow is persisted, edits made offline are simply pushed on
+// the next successful round. The shadow and cursor are shared by every tab,
+// so only the lead tab syncs; the others get its merges through storage
+// like any other tab's save, and their own saves reach it the same way.
+
+export const SYNC_KEY = "do-todo-sync";
+export const SYNC_COLLECTIONS = ["todos", "projects", "templates"];
+const SYNC_INTERVAL_MS = 30_000;
+/** Local saves are batched this long before a push. */
+const PUSH_DELAY_MS = 2000;
+
+/**
+ * @typedef FieldChange
+ * @property {unknown} value
+ * @property {number} at
+ *
+ * @typedef SyncRecord // a change pushed, or a record pulled
+ * @property {"todos"|"projects"|"templates"} collection
+ * @property {string} id
+ * @property {Record<string, FieldChange>} fields
+ * @property {number|null} [deleted]
+ *
+ * @typedef SyncStatus
+ * @property {"off"|"syncing"|"synced"|"offline"|"error"|"other-tab"} state
+ * @property {number|null} at // last successful sync
+ * @property {number} pending // changes waiting to be pushed
+ * @property {string} [error]
+ */
+
+export function normalizeSyncSettings(s) {
+  return {
+    url: typeof s?.url === "string" ? s.url.trim().replace(/\/+$/, "") : "",
+    token: typeof s?.token === "string" ? s.token : "",
+  };
+}
+
+function keyOf(collection, id) {
+  return `${collection}:${id}`;
+}
+
+function fieldsOf(record) {
+  const { id: _id, updatedAt: _at, ...fields } = record;
+  return fields;
+}
+
+function same(a, b) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Local changes the server hasn't seen: changed fields of live records and
+ * deletions of records the server still has.
+ * @returns {SyncRecord[]}
+ */
+export function diffChanges(store, shadow) {
+  const changes = [];
+  for (const collection of SYNC_COLLECTIONS) {
+    const live = new Set();
+    for (const r of store[collection]) {
+      live.add(r.id);
+      const known = shadow[keyOf(collection, r.id)];
+      const fields = {};
+      for (const [f, value] of Object.entries(fieldsOf(r))) {
+        if (!known || !same(known[f], value)) fields[f] = { value, at: r.updatedAt };
+      }
+      if (Object.keys(fields).length) changes.push({ collection, id: r.id, fields });
+    }
+    for (const [id, at] of Object.entries(store.deleted || {})) {
+      if (!live.has(id) && shadow[keyOf(collection, id)]) changes.push({ collection, id, fields: {}, deleted: at });
+    }
+  }
+  return changes;
+}
+
+/** The shadow after the server accepted `changes`. */
+export function shadowAfterPush(shadow, changes) {
+  const next = { ...shadow };
+  for (const c of changes) {
+    const key = keyOf(c.collection, c.id);
+    if (c.deleted != null) {
+      next[key] = null;
+      continue;
+    }
+    const values = Object.fromEntries(Object.entries(c.fields).map(([f, v]) => [f, v.value]));
+    next[key] = { ...(next[key] || {}), ...values };
+  }
+  return next;
+}
+
+function serverTime(record) {
+  return Math.max(0, ...Object.values(record.fields || {}).map((f) => f.at));
+}
+
+function isDeleted(record) {
+  return record.deleted != null && record.deleted >= serverTime(record);
+}
+
+/** The shadow after pulling `records`: exactly what the server holds. */
+export function shadowAfterPull(shadow, records) {
+  const next = { ...shadow };
+  for (const r of records) {
+    next[keyOf(r.collection, r.id)] = isDeleted(r)
+      ? null
+      : Object.fromEntries(Object.entries(r.fields).map(([f, v]) => [f, v.value]));
+  }
+  return next;
+}
+
+/**
+ * Merges pulled records into a local list, field by field. A field edited
+ * locally since the last sync keeps its local value when that edit is newer
+ * than the server's, and a record deleted locally (a tombstone in `deleted`)
+ * after the server's last change stays deleted. Returns `local` itself when
+ * nothing changes.
+ * @param {Array<Todo|Project|Template>} local
+ * @param {(record: unknown) => { ok: boolean, value?: Todo|Project|Template }} validate
+ * @param {Record<string, number>} [deleted]
+ * @returns {{ list: Array<Todo|Project|Template>, removed: string[] }}
+ */
+export function mergeRemote(local, records, shadow, collection, validate, deleted = {}) {
+  const byId = new Map(local.map((t) => [t.id, t]));
+  const added = [];
+  const removed = [];
+  let changed = false;
+  for (const r of records) {
+    if (r.collection !== collection) continue;
+    // Deleted here while the round was in flight; the next push sends it.
+    if ((deleted[r.id] ?? 0) > serverTime(r)) continue;
+    const mine = byId.get(r.id);
+    const known = shadow[keyOf(collection, r.id)];
+    const pending = (f) => Boolean(mine) && (!known || !same(known[f], mine[f]));
+    if (isDeleted(r)) {
+      // A local edit made after the deletion brings the record back.
+      const revived = mine && mine.updatedAt > r.deleted && Object.keys(fieldsOf(mine)).some(pending);
+      if (mine && !revived) {
+        byId.delete(r.id);
+        removed.push(r.id);
+        changed = true;
+      }
+      continue;
+    }
+    const next = { ...(mine || {}), id: r.id };
+    for (const [f, { value, at }] of Object.entries(r.fields)) {
+      if (pending(f) && mine.updatedAt > at) continue;
+      next[f] = value;
+    }
+    if (mine && same(fieldsOf(next), fieldsOf(mine))) continue;
+    // Newer than our copy, so other tabs take it in their merge.
+    next.updatedAt = Math.max(serverTime(r), mine ? mine.updatedAt + 1 : 0);
+    const result = validate(next);
+    if (!result.ok) continue;
+    if (mine) byId.set(r.id, result.value);
+    else added.push(result.value);
+    changed = true;
+  }
+  if (!changed) return { list: local, removed };
+  const list = [...added, ...local.filter((t) => byId.has(t.id)).map((t) => byId.get(t.id))];
+  return { list, removed };
+}
+
+// --- Sync loop -----------------------------------------------------------
+function readSyncState(url) {
+  try {
+    const data = JSON.parse(localStorage.getItem(SYNC_KEY) || "null");
+    if (data && data.url === url && typeof data.shadow === "object") return data;
+  } catch (_) {
+    // Start over below.
+  }
+  // A new server: everything local is new to it.
+  return { url, cursor: 0, shadow: {}, at: null };
+}
+
+function writeSyncState(state) {
+  localStorage.setItem(SYNC_KEY, JSON.stringify(state));
+}
+
+async function request(settings, method, path, body = null) {
+  const res = await fetch(`${settings.url}${path}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!res.ok) throw new Error(`${method} ${path}: HTTP ${res.status}`);
+  return res.json();
+}
+
+/**
+ * Starts syncing with the server in `settings`.
+ * @param {object} options
+ * @param {() => { todos: Todo[], projects: Project[], templates: Template[], deleted: Record<string, number> }} options.getStore
+ * @param {(records: SyncRecord[], shadow: Record<string, object|null>) => void} options.onPull
+ *   merge pulled records; `shadow` is the state before this pull
+ * @param {(status: SyncStatus) => void} options.onStatus
+ * @param {() => boolean} [options.isLead] whether this tab syncs; the others skip their rounds
+ * @returns {{ poke: () => void, syncNow: () => Promise<void>, stop: () => void }}
+ */
+export function startSync(settings, { getStore, onPull, onStatus, isLead = () => true }) {
+  let stopped = false;
+  let running = null;
+  let again = false;
+  let lastAt = null;
+  let pushTimer = null;
+
+  function pendingCount() {
+    return diffChanges(getStore(), readSyncState(settings.url).shadow).length;
+  }
+
+  async function round() {
+    let state = readSyncState(settings.url);
+    const changes = diffChanges(getStore(), state.shadow);
+    if (changes.length) {
+      await request(settings, "POST", "/changes", { changes });
+      state = { ...state, shadow: shadowAfterPush(state.shadow, changes) };
+      writeSyncState(state);
+    }
+    const pulled = await request(settings, "GET", `/changes?since=${state.cursor}`);
+    const records = Array.isArray(pulled.records) ? pulled.records : [];
+    if (records.length) onPull(records, state.shadow);
+    writeSyncState({
+      ...state,
+      cursor: pulled.cursor ?? state.cursor,
+      shadow: shadowAfterPull(state.shadow, records),
+      at: Date.now(),
+    });
+  }
+
+  async function syncNow() {
+    if (stopped) return;
+    if (running) {
+      again = true;
+      return running;
+    }
+    if (!isLead()) {
+      // The lead tab's last round is the one that counts.
+      onStatus({ state: "other-tab", at: readSyncState(settings.url).at ?? null, pending: pendingCount() });
+      return;
+    }
+    if (typeof navigator !== "undefined" && navigator.onLine === false) {
+      onStatus({ state: "offline", at: lastAt, pending: pendingCount() });
+      return;
+    }
+    onStatus({ state: "syncing", at: lastAt, pending: pendingCount() });
+    running = round()
+      .then(() => {
+        lastAt = Date.now();
+        if (!stopped) onStatus({ state: "synced", at: lastAt, pending: pendingCount() });
+      })
+      .catch((err) => {
+        if (stopped) return;
+        const offline = err instanceof TypeError; // fetch rejects with TypeError on network failure
+        onStatus({
+          state: offline ? "offline" : "error",
+          at: lastAt,
+          pending: pendingCount(),
+          error: err instanceof Error ? err.message : String(err),
+        });
+      })
+      .finally(() => {
+        running = null;
+        if (again && !stopped) {
+          again = false;
+          syncNow();
+        }
+      });
+    return running;
+  }
+
+  function poke() {
+    clearTimeout(pushTimer);
+    pushTimer = setTimeout(syncNow, PUSH_DELAY_MS);
+  }
+
+  const onOnline = () => syncNow();
+  window.addEventListener("online", onOnline);
+  const interval = setInterval(syncNow, SYNC_INTERVAL_MS);
+  syncNow();
+  return {
+    poke,
+    syncNow,
+    stop() {
+      stopped = true;
+      clearTimeout(pushTimer);
+      clearInterval(interval);
+      window.removeEventListener("online", onOnline);
+    },
+  };
+}
@@ -0,0 +1,136 @@
+// --- Multi-tab coordination ----------------------------------------------
+// Every open tab keeps its own copy of the list. Each change stamps the
+// touched todos with `updatedAt`, deletions leave a tombstone, and whenever
+// a tab saves or sees another tab's save (`storage` event) the two copies
+// are merged per todo by last-modified time.
+//
+// Alerts for a run are fired by exactly one tab: the tab that started the
+// run while it is still open, otherwise the lead tab, the live tab with the
+// smallest id. The lead tab also does the server sync. Tabs announce
+// themselves with a heartbeat so a closed owner is noticed.
+
+export const TABS_KEY = "do-todo-tabs";
+const HEARTBEAT_MS = 5000;
+const TAB_TIMEOUT_MS = 3 * HEARTBEAT_MS;
+/** Tombstones only need to outlive tabs that may still hold the todo. */
+const TOMBSTONE_TTL_MS = 30 * 24 * 3600 * 1000;
+
+export const TAB_ID = Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+
+/**
+ * Stamps records (todos, projects) that changed between two states of a list
+ * and records tombstones for the ones that disappeared. Updates are immutable, so a
+ * changed todo is simply one whose object is no longer the same.
+ * @returns {{ records: Array<Todo|Project>, deleted: Record<string, number> }}
+ */
+export function stampChanges(prev, next, deleted, now = Date.now()) {
+  const before = new Map(prev.map((t) => [t.id, t]));
+  const records = next.map((t) => (before.get(t.id) === t ? t : { ...t, updatedAt: now }));
+  const kept = new Set(next.map((t) => t.id));
+  // A todo that comes back (undo, import) clears its old tombstone.
+  const tombstones = Object.fromEntries(
+    Object.entries(deleted || {}).filter(([id]) => !kept.has(id))
+  );
+  for (const id of before.keys()) {
+    if (!kept.has(id)) tombstones[id] = now;
+  }
+  return { records, deleted: tombstones };
+}
+
+export function mergeDeleted(a, b, now = Date.now()) {
+  const out = {};
+  for (const src of [a || {}, b || {}]) {
+    for (const [id, at] of Object.entries(src)) {
+      if (now - at > TOMBSTONE_TTL_MS) continue;
+      out[id] = Math.max(out[id] ?? 0, at);
+    }
+  }
+  return out;
+}
+
+/**
+ * Merges another copy of a list into ours, record by record. The newer
+ * `updatedAt` wins; ties keep ours. Returns `local` itself when nothing
+ * changes so React can skip the update.
+ */
+export function mergeRecords(local, remote, deleted = {}) {
+  const mine = new Map(local.map((t) => [t.id, t]));
+  let changed = false;
+  const incoming = [];
+  for (const r of remote) {
+    const l = mine.get(r.id);
+    if (!l) {
+      incoming.push(r);
+    } else if ((r.updatedAt ?? 0) > (l.updatedAt ?? 0)) {
+      mine.set(r.id, r);
+      changed = true;
+    }
+  }
+  const alive = (t) => !(deleted[t.id] >= (t.updatedAt ?? 0));
+  const fresh = incoming.filter(alive);
+  const merged = [...fresh, ...local.map((t) => mine.get(t.id))].filter(alive);
+  if (!changed && !fresh.length && merged.length === local.length) return local;
+  return merged;
+}
+
+// --- Presence & alert ownership -----------------------------------------
+function readTabs() {
+  try {
+    const data = JSON.parse(localStorage.getItem(TABS_KEY) || "{}");
+    return data && typeof data === "object" ? data : {};
+  } catch (_) {
+    return {};
+  }
+}
+
+function writeTabs(update) {
+  try {
+    localStorage.setItem(TABS_KEY, JSON.stringify(update(readTabs())));
+  } catch (_) {
+    // Presence is best effort; a full or blocked storage only risks a duplicate alert.
+  }
+}
+
+/** Starts this tab's heartbeat. Returns a cleanup function. */
+export function startPresence() {
+  const beat = () =>
+    writeTabs((tabs) => {
+      const now = Date.now();
+      const live = Object.fromEntries(
+        Object.entries(tabs).filter(([, seen]) => now - seen < TAB_TIMEOUT_MS)
+      );
+      return { ...live, [TAB_ID]: now };
+    });
+  const leave = () =>
+    writeTabs((tabs) => {
+      const { [TAB_ID]: _, ...rest } = tabs;
+      return rest;
+    });
+  beat();
+  const id = setInterval(beat, HEARTBEAT_MS);
+  window.addEventListener("pagehide", leave);
+  return () => {
+    clearInterval(id);
+    window.removeEventListener("pagehide", leave);
+    leave();
+  };
+}
+
+export function liveTabs(now = Date.now()) {
+  return Object.entries(readTabs())
+    .filter(([, seen]) => now - seen < TAB_TIMEOUT_MS)
+    .map(([id]) => id)
+    .sort();
+}
+
+/** Whether this tab does the work only one tab should do, such as server sync. */
+export function isLeadTab(now = Date.now()) {
+  return (liveTabs(now)[0] ?? TAB_ID) === TAB_ID;
+}
+
+/** Whether this tab is the one that should alert for the todo's current run. */
+export function ownsRun(todo, now = Date.now()) {
+  const live = liveTabs(now);
+  if (todo.runOwner && live.includes(todo.runOwner)) return todo.runOwner === TAB_ID;
+  return isLeadTab(now);
+}
@@ -0,0 +1,100 @@
+import { makeSubtask } from "./subtasks";
+import { makeThreshold } from "./thresholds";
+
+// --- Templates -----------------------------------------------------------
+// A template is the reusable shape of a todo: title, notes, alert thresholds,
+// estimate, project, tags, priority and subtask titles. Templates are a third
+// collection in the store next to todos and projects, so they merge between
+// tabs, sync and go into JSON backups like the others. Title and notes may
+// hold placeholders, filled in when the template is used:
+//
+//   {date} 2026-10-19    {weekday} Monday    {time} 14:30
+//   {tomorrow} 2026-10-20    {week} 43 (ISO week)
+//   {month} October    {year} 2026
+//
+// Anything else in braces is left as typed.
+
+/**
+ * @typedef Template
+ * @property {string} id
+ * @property {string} name
+ * @property {string} title
+ * @property {string} notes
+ * @property {Threshold[]} alerts
+ * @property {number|null} estimateMinutes
+ * @property {string|null} projectId
+ * @property {string[]} tags
+ * @property {"high"|"medium"|"low"|null} priority
+ * @property {string[]} subtasks // titles
+ * @property {number} createdAt
+ * @property {number} updatedAt
+ */
+
+function pad(n) {
+  return String(n).padStart(2, "0");
+}
+
+function isoDate(d) {
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** ISO 8601 week number: weeks start on Monday, week 1 holds January 4th. */
+function isoWeek(d) {
+  // A week belongs to the year its Thursday falls in.
+  const thursday = new Date(d.getFullYear(), d.getMonth(), d.getDate() + 3 - ((d.getDay() + 6) % 7));
+  const jan4 = new Date(thursday.getFullYear(), 0, 4);
+  const days = Math.round((thursday.getTime() - jan4.getTime()) / (24 * 3600 * 1000));
+  return 1 + Math.round((days - 3 + ((jan4.getDay() + 6) % 7)) / 7);
+}
+
+export const PLACEHOLDERS = {
+  date: (d) => isoDate(d),
+  weekday: (d) => d.toLocaleDateString([], { weekday: "long" }),
+  time: (d) => `${pad(d.getHours())}:${pad(d.getMinutes())}`,
+  tomorrow: (d) => isoDate(new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1)),
+  week: (d) => String(isoWeek(d)),
+  month: (d) => d.toLocaleDateString([], { month: "long" }),
+  year: (d) => String(d.getFullYear()),
+};
+
+export function fillPlaceholders(text, now = Date.now()) {
+  const d = new Date(now);
+  return String(text || "").replace(/\{(\w+)\}/g, (match, name) =>
+    Object.prototype.hasOwnProperty.call(PLACEHOLDERS, name) ? PLACEHOLDERS[name](d) : match
+  );
+}
+
+/** A template with the shape of `todo`; time, dates and state are left behind. */
+export function templateFromTodo(todo, id, now = Date.now()) {
+  return {
+    id,
+    name: todo.title,
+    title: todo.title,
+    notes: todo.notes || "",
+    alerts: (todo.alerts || []).map((a) => makeThreshold(a.minutes, a.action)),
+    estimateMinutes: todo.estimateMinutes ?? null,
+    projectId: todo.projectId ?? null,
+    tags: todo.tags || [],
+    priority: todo.priority ?? null,
+    subtasks: (todo.subtasks || []).map((s) => s.title),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * The fields of a new todo made from `template`, placeholders filled. The
+ * project is dropped if it no longer exists.
+ */
+export function instantiateTemplate(template, projects = [], now = Date.now()) {
+  return {
+    title: fillPlaceholders(template.title, now),
+    notes: fillPlaceholders(template.notes, now),
+    alerts: template.alerts.map((a) => makeThreshold(a.minutes, a.action)),
+    estimateMinutes: template.estimateMinutes,
+    projectId: projects.some((p) => p.id === template.projectId) ? template.projectId : null,
+    tags: template.tags.slice(),
+    priority: template.priority,
+    subtasks: template.subtasks.map(makeSubtask),
+  };
+}
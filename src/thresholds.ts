@@ -0,0 +1,70 @@
+// --- Alert thresholds ----------------------------------------------------
+// A todo can carry several thresholds on its tracked time, e.g. a nudge at
+// 25m, a warning at 45m and an auto-stop at 60m. Each one fires once per run:
+// `firedAlerts` holds the ids that have fired since the timer was started.
+// Thresholds the todo had already passed when the run started count as fired,
+// so restarting a long task doesn't replay old alerts (or stop it at once).
+
+/**
+ * @typedef Threshold
+ * @property {string} id
+ * @property {number} minutes // total tracked time that triggers it
+ * @property {"notify"|"toast"|"chime"|"stop"} action
+ */
+
+export const ALERT_ACTIONS = {
+  notify: "Notification",
+  toast: "Toast",
+  chime: "Chime",
+  stop: "Stop timer",
+};
+
+export function makeThreshold(minutes, action = "notify") {
+  return { id: "a" + Math.random().toString(36).slice(2, 10), minutes, action };
+}
+
+export function sortThresholds(list) {
+  return (list || []).slice().sort((a, b) => a.minutes - b.minutes);
+}
+
+/** Normalizes stored thresholds; returns null when the list can't be trusted. */
+export function normalizeThresholds(list) {
+  if (list == null) return [];
+  if (!Array.isArray(list)) return null;
+  const valid = list.every(
+    (a) =>
+      a &&
+      typeof a.id === "string" &&
+      typeof a.minutes === "number" &&
+      Number.isFinite(a.minutes) &&
+      a.minutes > 0 &&
+      a.action in ALERT_ACTIONS
+  );
+  return valid ? sortThresholds(list.map(({ id, minutes, action }) => ({ id, minutes, action }))) : null;
+}
+
+function thresholdMs(a) {
+  return a.minutes * 60_000;
+}
+
+/** Ids to mark as fired when a run starts with `elapsedMs` already tracked. */
+export function passedThresholds(alerts, elapsedMs) {
+  return (alerts || []).filter((a) => thresholdMs(a) <= elapsedMs).map((a) => a.id);
+}
+
+/** Thresholds reached but not yet fired in this run, in order. */
+export function dueThresholds(todo, elapsedMs) {
+  const fired = todo.firedAlerts || [];
+  return sortThresholds(todo.alerts).filter((a) => thresholdMs(a) <= elapsedMs && !fired.includes(a.id));
+}
+
+/** The next threshold still to fire in this run, or null. */
+export function nextThreshold(todo, elapsedMs) {
+  const fired = todo.firedAlerts || [];
+  return sortThresholds(todo.alerts).find((a) => thresholdMs(a) > elapsedMs && !fired.includes(a.id)) ?? null;
+}
+
+/** When a running todo reaches `threshold`, as a timestamp. */
+export function thresholdAt(todo, threshold) {
+  return todo.startedAt + thresholdMs(threshold) - todo.elapsedMs;
+}
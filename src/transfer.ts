@@ -0,0 +1,290 @@
+import { formatDuration, parseDuration } from "./quickadd";
+import { SCHEMA_VERSION, migratePayload } from "./storage";
+import { ALERT_ACTIONS, makeThreshold, sortThresholds } from "./thresholds";
+
+// --- Export / import -----------------------------------------------------
+// JSON exports are the storage payload plus a marker, so importing one runs
+// through the same migrations and validation as loading from localStorage.
+// CSV is for spreadsheets: one row per todo, dates as ISO strings, and the
+// session log JSON-encoded in its own column so a CSV round trip keeps time.
+
+export const EXPORT_APP = "do-todo";
+
+const CSV_COLUMNS = [
+  "id",
+  "title",
+  "notes",
+  "completed",
+  "createdAt",
+  "completedAt",
+  "archivedAt",
+  "elapsedMs",
+  "elapsedHours",
+  "pomodoros",
+  "alerts",
+  "estimateMinutes",
+  "due",
+  "priority",
+  "order",
+  "recurrence",
+  "seriesId",
+  "projectId",
+  "project",
+  "tags",
+  "subtasks",
+  "sessions",
+];
+
+/** Alert thresholds as "25m notify, 1h stop". */
+export function formatThresholds(alerts) {
+  return sortThresholds(alerts)
+    .map((a) => `${formatDuration(a.minutes)} ${a.action}`)
+    .join(", ");
+}
+
+/** Reads `formatThresholds` output; entries that don't parse are dropped. */
+export function parseThresholds(text) {
+  const out = [];
+  for (const part of String(text || "").split(",")) {
+    const [duration, action = "notify"] = part.trim().split(/\s+/);
+    const minutes = duration ? parseDuration(duration) : null;
+    if (minutes != null && action in ALERT_ACTIONS) out.push(makeThreshold(minutes, action));
+  }
+  return sortThresholds(out);
+}
+
+function isoOrEmpty(ms) {
+  return ms == null ? "" : new Date(ms).toISOString();
+}
+
+export function exportJSON(todos, projects = [], templates = [], now = Date.now()) {
+  return JSON.stringify(
+    { app: EXPORT_APP, version: SCHEMA_VERSION, exportedAt: now, todos, projects, templates },
+    null,
+    2
+  );
+}
+
+export function csvCell(value) {
+  const s = value == null ? "" : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** Running timers are exported with the time logged so far, as stopped. */
+export function exportCSV(todos, projects = []) {
+  const names = new Map(projects.map((p) => [p.id, p.name]));
+  const rows = todos.map((t) => [
+    t.id,
+    t.title,
+    t.notes || "",
+    t.completed ? "true" : "false",
+    isoOrEmpty(t.createdAt),
+    isoOrEmpty(t.completedAt),
+    isoOrEmpty(t.archivedAt),
+    t.elapsedMs,
+    (t.elapsedMs / 3_600_000).toFixed(2),
+    t.pomodoros || 0,
+    formatThresholds(t.alerts),
+    t.estimateMinutes ?? "",
+    isoOrEmpty(t.due),
+    t.priority ?? "",
+    t.order,
+    t.recurrence ? JSON.stringify(t.recurrence) : "",
+    t.seriesId ?? "",
+    t.projectId ?? "",
+    names.get(t.projectId) ?? "",
+    (t.tags || []).join(", "),
+    (t.subtasks || []).length ? JSON.stringify(t.subtasks) : "",
+    JSON.stringify(t.sessions || []),
+  ]);
+  return [CSV_COLUMNS, ...rows].map((r) => r.map(csvCell).join(",")).join("\r\n");
+}
+
+/** Minimal RFC 4180 reader: quoted cells, doubled quotes, CRLF or LF. */
+export function parseCSV(text) {
+  const rows = [];
+  let row = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+  if (cell !== "" || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c !== ""));
+}
+
+function parseTime(value) {
+  if (value === "" || value == null) return null;
+  const n = Number(value);
+  if (Number.isFinite(n)) return n;
+  const ms = Date.parse(value);
+  return Number.isFinite(ms) ? ms : NaN;
+}
+
+function parseJSONOrNull(text) {
+  try {
+    return JSON.parse(text);
+  } catch (_) {
+    return null;
+  }
+}
+
+/** CSV carries project names inline; rebuild the project list from them. */
+function csvToPayload(text, now = Date.now()) {
+  const [header, ...rows] = parseCSV(text);
+  if (!header || !header.includes("id") || !header.includes("title")) {
+    throw new Error("CSV needs at least an id and a title column");
+  }
+  const projects = new Map();
+  const todos = rows.map((cells) => {
+    const get = (name) => {
+      const i = header.indexOf(name);
+      return i === -1 ? "" : cells[i] ?? "";
+    };
+    const completed = get("completed").toLowerCase() === "true";
+    const sessionsCell = get("sessions");
+    // An unreadable cell becomes null and is left for validation to reject.
+    const sessions = sessionsCell ? parseJSONOrNull(sessionsCell) : [];
+    const projectId = get("projectId") || null;
+    if (projectId && get("project") && !projects.has(projectId)) {
+      projects.set(projectId, { id: projectId, name: get("project"), createdAt: now, updatedAt: now });
+    }
+    return {
+      id: get("id"),
+      title: get("title"),
+      notes: get("notes"),
+      completed,
+      completedAt: completed ? parseTime(get("completedAt")) : null,
+      archivedAt: completed ? parseTime(get("archivedAt")) : null,
+      createdAt: parseTime(get("createdAt")),
+      running: false,
+      startedAt: null,
+      sessions,
+      elapsedMs: Number(get("elapsedMs")) || 0,
+      pomodoros: Number(get("pomodoros")) || 0,
+      // Exports from before thresholds have a single warningMinutes column.
+      alerts: parseThresholds(header.includes("alerts") ? get("alerts") : get("warningMinutes")),
+      firedAlerts: [],
+      estimateMinutes: get("estimateMinutes") === "" ? null : Number(get("estimateMinutes")),
+      due: parseTime(get("due")),
+      priority: get("priority") || null,
+      order: get("order") === "" ? undefined : Number(get("order")),
+      recurrence: get("recurrence") ? parseJSONOrNull(get("recurrence")) : null,
+      seriesId: get("seriesId") || null,
+      subtasks: get("subtasks") ? parseJSONOrNull(get("subtasks")) : [],
+      projectId: projects.has(projectId) ? projectId : null,
+      tags: get("tags")
+        .split(",")
+        .map((x) => x.trim())
+        .filter(Boolean),
+    };
+  });
+  return { version: SCHEMA_VERSION, todos, projects: Array.from(projects.values()) };
+}
+
+/**
+ * Reads an export file. JSON is detected by content, anything else is
+ * treated as CSV. Every record is migrated and validated like stored data.
+ * @returns {{ ok: true, todos: Todo[], projects: Project[], templates: Template[], rejected: number } | { ok: false, error: string }}
+ */
+export function parseImport(text) {
+  const trimmed = text.trim();
+  if (!trimmed) return { ok: false, error: "The file is empty" };
+
+  let data;
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    try {
+      data = JSON.parse(trimmed);
+    } catch (_) {
+      return { ok: false, error: "The file is not valid JSON" };
+    }
+    if (!Array.isArray(data) && data?.app !== EXPORT_APP) {
+      return { ok: false, error: "This JSON file is not a Do Todo export" };
+    }
+    if (!Array.isArray(data) && Number(data.version) > SCHEMA_VERSION) {
+      return { ok: false, error: "This export comes from a newer version of Do Todo" };
+    }
+  } else {
+    try {
+      data = csvToPayload(trimmed);
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  const { todos, projects, templates, quarantined } = migratePayload(data);
+  if (!todos.length && quarantined.length) {
+    return { ok: false, error: "No valid todos found in the file" };
+  }
+  return { ok: true, todos, projects, templates, rejected: quarantined.length };
+}
+
+function sameTodo(a, b) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Compares imported todos with the local list.
+ * @returns {{ added: Todo[], conflicts: Array<{ local: Todo, imported: Todo }>, unchanged: number }}
+ */
+export function planImport(local, imported) {
+  const byId = new Map(local.map((t) => [t.id, t]));
+  const added = [];
+  const conflicts = [];
+  let unchanged = 0;
+  for (const t of imported) {
+    const mine = byId.get(t.id);
+    if (!mine) added.push(t);
+    else if (sameTodo(mine, t)) unchanged++;
+    else conflicts.push({ local: mine, imported: t });
+  }
+  return { added, conflicts, unchanged };
+}
+
+/**
+ * Produces the new list for an import.
+ * @param {"merge"|"replace"} mode
+ * @param {Record<string, "local"|"imported">} choices per conflicting id; local wins when absent
+ */
+export function applyImport(local, imported, mode, choices = {}) {
+  if (mode === "replace") return imported.slice();
+  const incoming = new Map(imported.map((t) => [t.id, t]));
+  const merged = local.map((t) =>
+    incoming.has(t.id) && choices[t.id] === "imported" ? incoming.get(t.id) : t
+  );
+  const known = new Set(local.map((t) => t.id));
+  return [...imported.filter((t) => !known.has(t.id)), ...merged];
+}
+
+/** Projects and templates follow the todo mode: replaced wholesale, or unknown ids added. */
+export function applyProjectImport(local, imported, mode) {
+  if (mode === "replace") return imported.slice();
+  const known = new Set(local.map((p) => p.id));
+  return [...local, ...imported.filter((p) => !known.has(p.id))];
+}